@@ -1,6 +1,33 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { classifyPrompt, parseScenePrompt, generateSkyTexture, generateTerrainTexture } from './services/geminiService';
-import { DreamRenderer } from './services/sceneService';
+import { geminiSceneProvider } from './services/geminiService';
+import { offlineSceneProvider } from './services/offlineSceneProvider';
+import { SceneProviderManager } from './services/SceneProviderManager';
+import { DreamRenderer, STILL_MAX_SIZE } from './services/sceneService';
+import {
+  createValidationContext,
+  validateDreamObject,
+  validateAtmosphere,
+  validateGroups,
+  validateSceneEdits,
+  validateSceneGraph,
+} from './services/sceneValidation';
+import { applySceneEdits } from './services/sceneEdits';
+import { describeAdjustment, LayoutAdjustment } from './services/layoutSolver';
+import { proceduralSpecFromAmbience } from './services/proceduralTextures';
+import { isAbortError, RequestTimeoutError } from './services/requestControl';
+import {
+  captureSceneDocument,
+  parseSceneDocument,
+  restoreSceneDocument,
+  SCENE_FILE_EXTENSION,
+  serializeSceneDocument,
+} from './services/sceneDocument';
+import { downloadBlob, fileTimestamp } from './services/fileDownload';
+import { CanvasRecorder, RECORDING_MAX_SECONDS } from './services/canvasCapture';
+import { MOTION_MODES, MOTION_SPEED_MAX, MOTION_SPEED_MIN } from './services/motionController';
+import { POST_EFFECTS, POST_QUALITIES, PostProcessingChanges, PostProcessingSettings } from './services/postProcessing';
+import { exportSceneGltf, exportScenePly } from './services/sceneExport';
+import { assetRegistry, loadBundledAssets } from './services/assetRegistry';
 import { CameraActionManager } from './services/CameraActionManager';
 import {
   OrbitCameraAction,
@@ -8,13 +35,22 @@ import {
   PinchTranslateAction,
   FistRotateAction,
   PalmReleaseAction,
+  PinToggleAction,
+  SelectionToggleAction,
+  ClearSelectionAction,
   TwoHandPinchScaleAction,
+  HistorySwipeAction,
+  RecordingToggleAction,
+  MotionSpeedAction,
 } from './services/defaultCameraActions';
+import { addObjectsCommand, captureEdit, captureEnvironment, combineCommands, editCommand, environmentCommand } from './services/historyCommands';
+import { atmosphereFromAmbience } from './services/atmosphere';
+import type { HistoryEntry } from './services/commandHistory';
 import { GalaxyParticles } from './components/GalaxyParticles';
 import { HandMonitor } from './components/HandMonitor';
 import HandStatistics, { HandData } from './components/HandStatistics';
 import { useHandTracking } from './services/handTrackingService';
-import { AppState, SceneGraph, HandStats } from './types';
+import { AppState, DreamObject, SceneGraph, HandStats, MotionMode, PostQuality, TextureSource } from './types';
 
 /** Convert HandData from handTrackingService to HandStats for CameraActionManager and UI. */
 function handDataToHandStats(handData: HandData): { left?: HandStats; right?: HandStats } {
@@ -47,6 +83,36 @@ function handDataToHandStats(handData: HandData): { left?: HandStats; right?: Ha
   return out;
 }
 
+/** Scene providers in fallback order: Gemini when an API key is configured, else the offline one. */
+function createSceneProviderManager(): SceneProviderManager {
+  const manager = new SceneProviderManager();
+  manager.register(geminiSceneProvider);
+  manager.register(offlineSceneProvider);
+  // Allow forcing a provider from the URL, e.g. ?provider=offline
+  const requested = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  if (requested && manager.list().some((p) => p.id === requested)) {
+    manager.setActive(requested);
+  }
+  return manager;
+}
+
+type PromptCommand = 'undo' | 'redo' | 'start-recording' | 'stop-recording';
+
+const PROMPT_COMMANDS: [RegExp, PromptCommand][] = [
+  [/^undo( that| it| last)?$/i, 'undo'],
+  [/^redo( that| it| last)?$/i, 'redo'],
+  [/^(start recording|record( a)?( video)?)$/i, 'start-recording'],
+  [/^stop( the)? (recording|video)$/i, 'stop-recording'],
+];
+
+/** The app command a prompt (typed or spoken) is, e.g. "Undo that." or "Start recording", or null. */
+function promptCommand(text: string): PromptCommand | null {
+  const phrase = text.trim().replace(/[.!]+$/, '');
+  return PROMPT_COMMANDS.find(([pattern]) => pattern.test(phrase))?.[1] ?? null;
+}
+
 const SpeechRecognitionCtor =
   typeof window !== 'undefined' &&
   (window.SpeechRecognition || (window as unknown as { webkitSpeechRecognition?: typeof SpeechRecognition }).webkitSpeechRecognition);
@@ -60,7 +126,9 @@ const App: React.FC = () => {
     skyUrl: null,
     terrainUrl: null,
     scene: null,
+    warnings: [],
     cameraSpeed: 1,
+    motionMode: 'drift',
   });
 
   const recognitionRef = useRef<InstanceType<NonNullable<typeof SpeechRecognitionCtor>> | null>(null);
@@ -69,9 +137,49 @@ const App: React.FC = () => {
   const rendererRef = useRef<DreamRenderer | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const cameraActionManagerRef = useRef<CameraActionManager | null>(null);
+  const [providerManager] = useState(createSceneProviderManager);
+  const [providerId, setProviderId] = useState(() => providerManager.getActive().id);
+  /** When set, sky/terrain images are generated fresh instead of reusing cached ones. */
+  const [regenerateTextures, setRegenerateTextures] = useState(false);
+  /** Creative mode: always draw sky/terrain procedurally instead of generating images. */
+  const [proceduralTextures, setProceduralTextures] = useState(false);
+  /** Aborts the generation in flight (Cancel button). */
+  const generationRef = useRef<AbortController | null>(null);
+  const sceneFileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fpsUpdateRef = useRef(0);
+  const lookUpdateRef = useRef(0);
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+  const toggleRecordingRef = useRef<() => void>(() => {});
+  const historyStepRef = useRef<(step: 'undo' | 'redo') => void>(() => {});
+  const [isRecording, setIsRecording] = useState(false);
+  /** Composite the hand monitor into recordings. */
+  const [recordHandOverlay, setRecordHandOverlay] = useState(true);
+  /** Stills are rendered at this multiple of the window size. */
+  const [stillScale, setStillScale] = useState(2);
+  /**
+   * The selected object (hovered by the left hand or clicked), how many objects manipulation acts on
+   * (its group or the selection set) and its group, for the selection panel.
+   */
+  const [selection, setSelection] = useState<{
+    id: string;
+    name: string;
+    pinned: boolean;
+    count: number;
+    group: string | null;
+  } | null>(null);
+  /** Whether the renderer's undo/redo history has anything to undo or redo (for the Undo/Redo buttons). */
+  const [history, setHistory] = useState({ canUndo: false, canRedo: false });
+  /** Names of the saved camera paths, the one picked for playback, and what is recording or playing. */
+  const [cameraPathNames, setCameraPathNames] = useState<string[]>([]);
+  const [chosenPath, setChosenPath] = useState('');
+  const [pathRecording, setPathRecording] = useState<{ fromGestures: boolean; keyframes: number } | null>(null);
+  const [playingPath, setPlayingPath] = useState<string | null>(null);
+  /** Galaxy overlay opacity and star tint, following the atmosphere's light (stars show more at night). */
+  const [overlayLook, setOverlayLook] = useState({ opacity: 1, tint: '#ffffff' });
+  /** Post-processing settings and the preset in use (lower than the chosen one while adapting to a low frame rate). */
+  const [postProcessing, setPostProcessing] = useState<{ settings: PostProcessingSettings; active: PostQuality } | null>(null);
   const { handData, isTracking } = useHandTracking(videoRef, canvasRef);
 
   const handStats = useMemo(() => handDataToHandStats(handData), [handData]);
@@ -86,7 +194,33 @@ const App: React.FC = () => {
             setState((prev) => ({ ...prev, fps }));
           }
         },
+        onAtmosphereUpdate: (look) => {
+          const now = Date.now();
+          if (now - lookUpdateRef.current >= 200) {
+            lookUpdateRef.current = now;
+            setOverlayLook({ opacity: look.starVisibility, tint: `#${look.lightColor.getHexString()}` });
+          }
+        },
+        onSelectionChange: (id) => {
+          const renderer = rendererRef.current;
+          const summary = id ? renderer?.getObjectSummaries().find((o) => o.id === id) : undefined;
+          setSelection(renderer && summary ? {
+            id: summary.id,
+            name: summary.name,
+            pinned: renderer.getObjectPersistence(summary.id)?.mode === 'pinned',
+            count: renderer.getSelectedObjectIds().length,
+            group: renderer.getGroupOf(summary.id)?.name ?? null,
+          } : null);
+        },
       });
+      const { history } = rendererRef.current;
+      history.subscribe(() => setHistory({ canUndo: history.canUndo(), canRedo: history.canRedo() }));
+      const { motion } = rendererRef.current;
+      motion.subscribe(() => setState((prev) => ({ ...prev, cameraSpeed: motion.speed, motionMode: motion.mode })));
+      const { postProcessing: post } = rendererRef.current;
+      const showPost = () => setPostProcessing({ settings: post.settings, active: post.activeQuality });
+      post.subscribe(showPost);
+      showPost();
     }
 
     if (!cameraActionManagerRef.current) {
@@ -97,10 +231,22 @@ const App: React.FC = () => {
       manager.register(new FistRotateAction());
       manager.register(new PalmReleaseAction());
       manager.register(new TwoHandPinchScaleAction());
+      manager.register(new PinToggleAction());
+      manager.register(new SelectionToggleAction());
+      manager.register(new ClearSelectionAction());
+      manager.register(new HistorySwipeAction((step) => historyStepRef.current(step)));
+      manager.register(new RecordingToggleAction(() => toggleRecordingRef.current()));
+      manager.register(new MotionSpeedAction());
       cameraActionManagerRef.current = manager;
     }
   }, []);
 
+  useEffect(() => {
+    loadBundledAssets()
+      .then((warnings) => warnings.forEach((w) => console.warn('Asset manifest:', w)))
+      .catch((error) => console.error('Could not load the asset manifest:', error));
+  }, []);
+
   // Hand gesture → scene: delegate to CameraActionManager (handStats from handTrackingService)
   useEffect(() => {
     const renderer = rendererRef.current;
@@ -109,74 +255,510 @@ const App: React.FC = () => {
     manager.process(handStats, state.scene, renderer);
   }, [handStats, state.scene]);
 
+  /** Start recording the view to WebM, or stop and download the recording. */
+  const handleToggleRecording = useCallback(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const recorder = (recorderRef.current ??= new CanvasRecorder(renderer));
+    if (recorder.isRecording()) {
+      recorder.stop();
+      return;
+    }
+    try {
+      recorder.start({
+        overlay: recordHandOverlay ? canvasRef.current : null,
+        onStop: (video, reason) => {
+          setIsRecording(false);
+          downloadBlob(video, `dream-${fileTimestamp()}.webm`);
+          setState(prev => ({
+            ...prev,
+            statusMessage: reason === 'time-limit'
+              ? `Recording reached its ${RECORDING_MAX_SECONDS / 60}-minute limit and was saved.`
+              : 'Recording saved.',
+          }));
+        },
+      });
+      setIsRecording(true);
+      setState(prev => ({ ...prev, statusMessage: 'Recording the dream...' }));
+    } catch (error) {
+      setState(prev => ({ ...prev, statusMessage: `Could not record: ${error instanceof Error ? error.message : String(error)}` }));
+    }
+  }, [recordHandOverlay]);
+  // The recording gesture is registered once; it calls whatever toggle is current.
+  toggleRecordingRef.current = handleToggleRecording;
+
+  /** Render the view at a multiple of the window size and download it as a PNG. */
+  const handleSaveStill = useCallback(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const fit = Math.min(stillScale, STILL_MAX_SIZE / window.innerWidth, STILL_MAX_SIZE / window.innerHeight);
+    const width = Math.round(window.innerWidth * fit);
+    const height = Math.round(window.innerHeight * fit);
+    try {
+      renderer.renderStill(width, height).toBlob((png) => {
+        if (!png) {
+          setState(prev => ({ ...prev, statusMessage: 'Could not encode the still.' }));
+          return;
+        }
+        downloadBlob(png, `dream-${fileTimestamp()}.png`);
+        setState(prev => ({ ...prev, statusMessage: `Saved a ${width}×${height} still.` }));
+      }, 'image/png');
+    } catch (error) {
+      console.error(error);
+      setState(prev => ({ ...prev, statusMessage: 'Could not render the still.' }));
+    }
+  }, [stillScale]);
+
+  const handleMotionMode = useCallback((mode: MotionMode) => {
+    const renderer = rendererRef.current;
+    if (renderer) renderer.motion.mode = mode;
+  }, []);
+
+  const handleMotionSpeed = useCallback((speed: number) => {
+    const renderer = rendererRef.current;
+    if (renderer) renderer.motion.speed = speed;
+  }, []);
+
+  const handlePostProcessing = useCallback((changes: PostProcessingChanges) => {
+    rendererRef.current?.postProcessing.update(changes);
+  }, []);
+
+  /** Undo or redo one history entry (a gesture, a generation, ...) and say which. */
+  const handleHistoryStep = useCallback(async (step: 'undo' | 'redo') => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    try {
+      const label = await renderer.history[step]();
+      setState(prev => ({
+        ...prev,
+        statusMessage: label ? `${step === 'undo' ? 'Undid' : 'Redid'}: ${label}` : `Nothing to ${step}.`,
+      }));
+    } catch (error) {
+      console.error(error);
+      setState(prev => ({ ...prev, statusMessage: `Could not ${step}.` }));
+    }
+  }, []);
+  // The swipe gesture is registered before this callback exists; it calls it through the ref.
+  historyStepRef.current = handleHistoryStep;
+
   const handleGenerate = useCallback(async (promptOverride?: string) => {
     const raw = promptOverride !== undefined ? promptOverride : prompt;
     const text = typeof raw === 'string' ? raw.trim() : String(raw).trim();
     if (!text || state.isGenerating) return;
+    // Commands such as "undo" or "start recording" (typed or spoken) are run instead of generating.
+    const command = promptCommand(text);
+    if (command) {
+      setPrompt('');
+      if (command === 'undo' || command === 'redo') handleHistoryStep(command);
+      else if ((command === 'start-recording') !== !!recorderRef.current?.isRecording()) handleToggleRecording();
+      return;
+    }
 
     setPrompt(text);
-    setState(prev => ({ ...prev, isGenerating: true, statusMessage: 'Classifying prompt...' }));
+    setState(prev => ({ ...prev, isGenerating: true, statusMessage: 'Reading the dream...' }));
 
+    const provider = providerManager.getActive();
+    const renderer = rendererRef.current;
+    const controller = new AbortController();
+    generationRef.current = controller;
+    const { signal } = controller;
+    // Object loads can also be stopped on their own: an edit keeps none of the objects streamed before it was recognized.
+    const loads = new AbortController();
+    const loadSignal = AbortSignal.any([signal, loads.signal]);
+    // Objects this generation has put in the scene; removed again if it is cancelled, fails or turns out to be an edit.
+    const committedIds: string[] = [];
     try {
-      const kind = await classifyPrompt(text);
-      console.log("kind", kind);
-      if (kind === 'scene') {
-        setState(prev => ({ ...prev, statusMessage: 'Generating sky & terrain...' }));
-        const ambience = text.slice(0, 300);
-        const [skyUrl, terrainUrl] = await Promise.all([
-          generateSkyTexture(ambience),
-          generateTerrainTexture(ambience),
-        ]);
+      // Object types come from the asset manifest, which may still be loading.
+      await assetRegistry.ready();
+      const liveObjects = renderer?.getObjectSummaries() ?? [];
+      // Each object is validated and starts materializing as soon as the provider streams it in.
+      const objectContext = createValidationContext();
+      liveObjects.forEach((o) => objectContext.usedIds.add(o.id));
+      const streamed: DreamObject[] = [];
+      const layoutAdjustments: LayoutAdjustment[] = [];
+      const materializing: Promise<void>[] = [];
+      const onObject = (rawObject: unknown) => {
+        const object = validateDreamObject(rawObject, objectContext);
+        if (!object) return;
+        streamed.push(object);
+        if (!renderer) return;
+        setState(prev => ({ ...prev, statusMessage: `Materializing ${object.name}...` }));
+        const loaded = renderer.prepareObjects([object], loadSignal).then((prepared) => {
+          if (loadSignal.aborted) {
+            renderer.discardPrepared(prepared);
+            return;
+          }
+          const adjustments = renderer.layoutObjects(prepared);
+          layoutAdjustments.push(...adjustments);
+          // Keep the scene graph in step with where the layout pass put the object.
+          adjustments.forEach(({ to }) => { object.position = to; });
+          renderer.commitObjects(prepared);
+          committedIds.push(object.id);
+        });
+        loaded.catch(() => {}); // awaited below; don't report as unhandled if we bail out first
+        materializing.push(loaded);
+      };
+
+      const decomposition = await provider.decomposePrompt(text, liveObjects, { signal, onObject });
+      if (decomposition.kind === 'edit') {
+        loads.abort();
+        await Promise.allSettled(materializing);
+        committedIds.splice(0).forEach((id) => renderer?.deleteObject(id));
+        setState(prev => ({ ...prev, statusMessage: 'Reshaping the dream...' }));
+        const { operations, warnings } = validateSceneEdits(
+          await provider.parseEditPrompt(text, liveObjects, { signal }),
+          liveObjects
+        );
+        if (warnings.length > 0) console.warn('Edit operations repaired:', warnings);
+        const before = renderer ? captureEdit(renderer, operations) : null;
+        const adjustments = renderer ? await applySceneEdits(renderer, operations, signal) : [];
+        signal.throwIfAborted();
+        if (renderer && before && operations.length > 0) {
+          const addedIds = operations.flatMap((o) => (o.op === 'add' ? [o.object.id] : []));
+          renderer.history.push(editCommand(renderer, before, addedIds, `Edit ${text.slice(0, 30)}`));
+        }
+        if (adjustments.length > 0) console.info('Layout adjustments:', adjustments);
         setState(prev => ({
           ...prev,
-          skyUrl,
-          terrainUrl,
+          warnings: [...warnings, ...adjustments.map(describeAdjustment)],
+          isGenerating: false,
+          statusMessage: operations.length > 0
+            ? `Applied ${operations.length} change${operations.length === 1 ? '' : 's'}`
+            : 'Nothing in the dream matched that change.',
         }));
+        return;
+      }
+
+      const { ambience } = decomposition;
+      // Objects were validated as they streamed in; groups refer to their (possibly renamed) ids.
+      const groups = validateGroups(decomposition.scene?.groups, objectContext);
+      // This fills in the scene-level fields.
+      const validated = decomposition.scene
+        ? validateSceneGraph({ ...decomposition.scene, objects: [], groups: undefined, atmosphere: undefined }, { fallbackAmbience: ambience ?? text })
+        : null;
+      const warnings = [...objectContext.warnings, ...(validated?.warnings ?? [])];
+      // A new environment without an atmosphere from the provider gets one derived from its ambience.
+      const atmosphere = validateAtmosphere(decomposition.atmosphere, warnings) ?? (ambience ? atmosphereFromAmbience(ambience) : null);
+      if (warnings.length > 0) console.warn('Scene graph repaired:', warnings);
+      setState(prev => ({
+        ...prev,
+        statusMessage: ambience ? 'Generating sky & terrain...' : 'Materializing objects...',
+      }));
+
+      // A failed or empty image falls back to a procedural texture instead of a blank sky/terrain.
+      const requestImage = (label: string, request: Promise<TextureSource>) =>
+        request.catch((error) => {
+          if (isAbortError(error)) throw error;
+          console.warn(`${label} image generation failed:`, error);
+          return '';
+        });
+      const [textures] = await Promise.all([
+        ambience && !proceduralTextures
+          ? Promise.all([
+              requestImage('Sky', provider.generateSkyTexture(ambience, { regenerate: regenerateTextures, signal })),
+              requestImage('Terrain', provider.generateTerrainTexture(ambience, { regenerate: regenerateTextures, signal })),
+            ])
+          : Promise.resolve(ambience ? ['', ''] : null),
+        Promise.all(materializing),
+      ]);
+      signal.throwIfAborted();
+      if (layoutAdjustments.length > 0) console.info('Layout adjustments:', layoutAdjustments);
+      renderer?.addGroups(groups);
+      const environmentBefore = renderer ? captureEnvironment(renderer) : null;
+      if (atmosphere) renderer?.setAtmosphere(atmosphere);
+      if (ambience && textures) {
+        const spec = proceduralSpecFromAmbience(ambience);
+        if (!proceduralTextures) {
+          if (!textures[0]) warnings.push('Sky image unavailable; drew a procedural sky');
+          if (!textures[1]) warnings.push('Terrain image unavailable; drew a procedural terrain');
+        }
         const terrainColor = '#FFFFFF';
         const skyColor = '#FFFFFF';
-        if (rendererRef.current) {
-          await rendererRef.current.setSkyAndTerrain(skyColor, terrainColor, skyUrl, terrainUrl);
+        renderer?.setSkyAndTerrain(skyColor, terrainColor, textures[0] || spec, textures[1] || spec);
+      }
+
+      const dreaming = validated?.scene.ambience ?? ambience ?? text;
+      if (renderer) {
+        // One history entry per generation: its objects, sky/terrain and atmosphere are undone together.
+        const entries: HistoryEntry[] = [];
+        if (committedIds.length > 0) {
+          entries.push(addObjectsCommand(renderer, [...committedIds], `Add ${committedIds.length} object${committedIds.length === 1 ? '' : 's'}`));
+        }
+        const environmentAfter = captureEnvironment(renderer);
+        if (environmentBefore && (environmentAfter.environment !== environmentBefore.environment || atmosphere)) {
+          entries.push(environmentCommand(renderer, environmentBefore, environmentAfter, ({ environment }) => {
+            setState(prev => ({ ...prev, skyUrl: environment?.sky ?? null, terrainUrl: environment?.terrain ?? null }));
+          }));
+        }
+        if (entries.length > 0) {
+          renderer.history.push(entries.length === 1 ? entries[0] : combineCommands(`Generate ${dreaming.slice(0, 30)}`, entries));
         }
-        setState(prev => ({ ...prev, isGenerating: false, statusMessage: `Now dreaming: ${ambience.slice(0, 50)}...` }));
+      }
+      setState(prev => ({
+        ...prev,
+        ...(ambience && textures
+          ? { skyUrl: textures[0] || proceduralSpecFromAmbience(ambience), terrainUrl: textures[1] || proceduralSpecFromAmbience(ambience) }
+          : {}),
+        scene: validated
+          ? { ...validated.scene, objects: streamed, ...(groups.length > 0 && { groups }), ...(atmosphere && { atmosphere }) }
+          : prev.scene,
+        warnings: [...warnings, ...layoutAdjustments.map(describeAdjustment)],
+        isGenerating: false,
+        statusMessage: `Now dreaming: ${dreaming.slice(0, 50)}${dreaming.length > 50 ? '...' : ''}`,
+      }));
+    } catch (error) {
+      // Stop loads still in flight and take back what already materialized: no partial results.
+      controller.abort();
+      committedIds.forEach((id) => renderer?.deleteObject(id));
+      if (isAbortError(error)) {
+        setState(prev => ({ ...prev, isGenerating: false, statusMessage: 'Generation cancelled.' }));
         return;
       }
+      console.error(error);
+      setState(prev => ({
+        ...prev,
+        isGenerating: false,
+        statusMessage: error instanceof RequestTimeoutError
+          ? 'The dream took too long to materialize.'
+          : 'The dream failed to materialize.',
+      }));
+    } finally {
+      if (generationRef.current === controller) generationRef.current = null;
+    }
+  }, [prompt, state.isGenerating, providerManager, regenerateTextures, proceduralTextures, handleHistoryStep, handleToggleRecording]);
 
-      setState(prev => ({ ...prev, statusMessage: 'Parsing objects...' }));
-      const scene = await parseScenePrompt(text);
-      setState(prev => ({ ...prev, statusMessage: 'Generating ethereal textures...' }));
-
-      // // use the previous skyURL and terrainUrl
-      // if (!state.skyUrl || !state.terrainUrl) {
-      //   console.log("Generating new textures");
-      //   const [skyUrl, terrainUrl] = await Promise.all([
-      //     generateSkyTexture(text),
-      //     generateTerrainTexture(text),
-      // ]);
-      // if (rendererRef.current) {
-      //     await rendererRef.current.setSkyAndTerrain(scene.skyColor, scene.terrainColor, state.skyUrl, state.terrainUrl);
-      // }
-      // setState(prev => ({
-      //     ...prev,
-      //     skyUrl,
-      //     terrainUrl,
-      //   }));
-      // }
-
-      if (rendererRef.current) {
-        await rendererRef.current.addObjects(scene.objects);
-      }
-      
+  const handleCancel = useCallback(() => {
+    generationRef.current?.abort();
+  }, []);
+
+  /** Save the live scene (objects as they are now, not as generated) to a JSON file. */
+  const handleExportScene = useCallback(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const doc = captureSceneDocument(renderer, state.scene?.ambience ?? '');
+    downloadBlob(
+      new Blob([serializeSceneDocument(doc)], { type: 'application/json' }),
+      `dream-${fileTimestamp()}${SCENE_FILE_EXTENSION}`
+    );
+    setState(prev => ({
+      ...prev,
+      scene: {
+        ambience: doc.ambience,
+        skyColor: doc.environment.skyColor,
+        terrainColor: doc.environment.terrainColor,
+        objects: doc.objects.map((s) => s.object),
+        groups: doc.groups,
+        atmosphere: doc.atmosphere,
+      },
+      statusMessage: `Saved ${doc.objects.length} objects.`,
+    }));
+  }, [state.scene]);
+
+  /** Export the visible points of all live objects for use in other tools. */
+  const handleExportModel = useCallback(async (format: 'ply' | 'glb') => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const objects = renderer.getObjectMeshes();
+    try {
+      const data = format === 'ply' ? exportScenePly(objects) : await exportSceneGltf(objects);
+      const type = format === 'ply' ? 'application/octet-stream' : 'model/gltf-binary';
+      downloadBlob(new Blob([data], { type }), `dream-${fileTimestamp()}.${format}`);
+      setState(prev => ({ ...prev, statusMessage: `Exported ${objects.length} objects as ${format.toUpperCase()}.` }));
+    } catch (error) {
+      console.error(error);
+      setState(prev => ({ ...prev, statusMessage: `Could not export ${format.toUpperCase()}.` }));
+    }
+  }, []);
+
+  const handleImportScene = useCallback(async (file: File) => {
+    const renderer = rendererRef.current;
+    if (!renderer || state.isGenerating) return;
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setState(prev => ({ ...prev, isGenerating: true, statusMessage: `Loading ${file.name}...` }));
+    try {
+      await assetRegistry.ready();
+      const { document: doc, warnings } = parseSceneDocument(await file.text());
+      await restoreSceneDocument(renderer, doc, controller.signal);
+      setCameraPathNames(doc.cameraPaths.map((p) => p.name));
+      setChosenPath(doc.cameraPaths[0]?.name ?? '');
+      setPlayingPath(null);
+      // Undoing into the replaced scene is not supported.
+      renderer.history.clear();
+      const { skyColor, terrainColor, sky, terrain } = doc.environment;
       setState(prev => ({
         ...prev,
-        scene,
+        skyUrl: sky,
+        terrainUrl: terrain,
+        scene: {
+          ambience: doc.ambience,
+          skyColor,
+          terrainColor,
+          objects: doc.objects.map((s) => s.object),
+          groups: doc.groups,
+          atmosphere: doc.atmosphere,
+        },
+        warnings,
         isGenerating: false,
-        statusMessage: `Now dreaming: ${scene.ambience}`,
+        statusMessage: `Loaded ${file.name}`,
       }));
     } catch (error) {
+      if (isAbortError(error)) {
+        setState(prev => ({ ...prev, isGenerating: false, statusMessage: 'Loading cancelled.' }));
+        return;
+      }
       console.error(error);
-      setState(prev => ({ ...prev, isGenerating: false, statusMessage: 'The dream failed to materialize.' }));
+      setState(prev => ({
+        ...prev,
+        isGenerating: false,
+        statusMessage: `Could not load ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      }));
+    } finally {
+      if (generationRef.current === controller) generationRef.current = null;
     }
-  }, [prompt, state.isGenerating]);
+  }, [state.isGenerating]);
+
+  /** Dropped point-cloud files become object types for this session. */
+  const handleDrop = useCallback(async (event: React.DragEvent) => {
+    event.preventDefault();
+    const added: string[] = [];
+    const failed: string[] = [];
+    const files: File[] = Array.from(event.dataTransfer.files);
+    for (const file of files) {
+      try {
+        added.push((await assetRegistry.registerFile(file)).type);
+      } catch (error) {
+        failed.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    if (added.length === 0 && failed.length === 0) return;
+    setState(prev => ({
+      ...prev,
+      warnings: failed,
+      statusMessage: added.length > 0
+        ? `Added ${added.map((t) => `"${t}"`).join(', ')}; mention it in a prompt to place it.`
+        : 'No point-cloud files to add.',
+    }));
+  }, []);
+
+  /**
+   * Pin the selected objects so they never expire, or unpin them (they then expire after a fresh random
+   * lifetime); the selected object's state decides which.
+   */
+  const handleTogglePin = useCallback(() => {
+    const renderer = rendererRef.current;
+    const id = renderer?.getSelectedObjectId();
+    if (!renderer || !id) return;
+    const pinned = renderer.getObjectPersistence(id)?.mode === 'pinned';
+    for (const target of renderer.getSelectedObjectIds()) {
+      renderer.setObjectPersistence(target, { mode: pinned ? 'ephemeral' : 'pinned' });
+    }
+  }, []);
+
+  /** Group the selected objects, or ungroup them if the selected object is already in a group. */
+  const handleToggleGroup = useCallback(() => {
+    const renderer = rendererRef.current;
+    const id = renderer?.getSelectedObjectId();
+    if (!renderer || !id) return;
+    if (renderer.getGroupOf(id)) {
+      renderer.ungroupObjects(renderer.getSelectedObjectIds());
+    } else if (!renderer.groupObjects(renderer.getSelectedObjectIds())) {
+      setState(prev => ({ ...prev, statusMessage: 'Add objects to the selection (shift-click) to group them.' }));
+      return;
+    }
+    setState(prev => (prev.scene ? { ...prev, scene: { ...prev.scene, groups: renderer.getGroups() } } : prev));
+  }, []);
+
+  /**
+   * Record a camera path: sampled from the camera as gestures move it, or only where keyframes are placed
+   * (Keyframe button).
+   */
+  const handleStartPathRecording = useCallback((fromGestures: boolean) => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    renderer.startCameraRecording(fromGestures);
+    setPlayingPath(null);
+    setPathRecording({ fromGestures, keyframes: 1 });
+    setState(prev => ({
+      ...prev,
+      statusMessage: fromGestures ? 'Recording the camera; move it with your right hand.' : 'Placing keyframes; move the camera and add one at each stop.',
+    }));
+  }, []);
+
+  const handleAddKeyframe = useCallback(() => {
+    const keyframes = rendererRef.current?.addCameraKeyframe() ?? 0;
+    setPathRecording(prev => (prev ? { ...prev, keyframes } : prev));
+  }, []);
+
+  /** Stop recording and save the path under a name the user picks (cancel discards it). */
+  const handleStopPathRecording = useCallback(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const name = window.prompt('Name this camera path', `Tour ${renderer.getCameraPaths().length + 1}`);
+    const path = renderer.stopCameraRecording(name?.trim() || null);
+    setPathRecording(null);
+    if (!path) {
+      setState(prev => ({ ...prev, statusMessage: name === null ? 'Camera path discarded.' : 'A camera path needs at least two keyframes.' }));
+      return;
+    }
+    setCameraPathNames(renderer.getCameraPaths().map((p) => p.name));
+    setChosenPath(path.name);
+    setState(prev => ({ ...prev, statusMessage: `Saved camera path "${path.name}" (${path.keyframes.length} keyframes).` }));
+  }, []);
+
+  const handleTogglePathPlayback = useCallback(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    if (renderer.isPlayingCameraPath()) {
+      renderer.stopCameraPath();
+      return;
+    }
+    if (renderer.playCameraPath(chosenPath, () => setPlayingPath(null))) setPlayingPath(chosenPath);
+  }, [chosenPath]);
+
+  /**
+   * Click in the 3D view: select the object under the pointer (or clear the selection); shift-click adds it
+   * to the selection set or takes it out.
+   */
+  const handleSceneClick = useCallback((event: React.MouseEvent) => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    const id = renderer.findClosestObjectAtScreenPoint(event.clientX / window.innerWidth, event.clientY / window.innerHeight);
+    if (!event.shiftKey) renderer.clearSelection();
+    renderer.setSelectedObjectId(id);
+    if (event.shiftKey && id) renderer.toggleInSelection(id);
+  }, []);
+
+  // Keys (unless typing in a field): Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; P pins/unpins,
+  // G groups/ungroups, Escape clears the selection, Space pauses or resumes the drift.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select')) return;
+      const key = event.key.toLowerCase();
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && (key === 'z' || key === 'y')) {
+        event.preventDefault();
+        handleHistoryStep(key === 'y' || event.shiftKey ? 'redo' : 'undo');
+        return;
+      }
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (key === 'p') handleTogglePin();
+      else if (key === 'g') handleToggleGroup();
+      else if (key === 'escape') rendererRef.current?.clearSelection();
+      else if (key === ' ') {
+        event.preventDefault();
+        const motion = rendererRef.current?.motion;
+        if (motion) motion.mode = motion.mode === 'paused' ? 'drift' : 'paused';
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleTogglePin, handleToggleGroup, handleHistoryStep]);
+
+  const handleProviderChange = useCallback((id: string) => {
+    providerManager.setActive(id);
+    setProviderId(id);
+  }, [providerManager]);
 
   // Voice recognition: create once
   useEffect(() => {
@@ -242,19 +824,242 @@ const App: React.FC = () => {
   }, [prompt]);
 
   return (
-    <div className="relative w-full h-screen bg-[#050505]">
+    <div
+      className="relative w-full h-screen bg-[#050505]"
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+      }}
+      onDrop={handleDrop}
+    >
       {/* Dreamy galaxy particles background */}
-      <GalaxyParticles />
+      <GalaxyParticles opacity={overlayLook.opacity} tint={overlayLook.tint} />
       {/* 3D Container */}
-      <div ref={containerRef} className="absolute inset-0 z-0" />
+      <div ref={containerRef} className="absolute inset-0 z-0" onClick={handleSceneClick} />
 
       {/* Top Header */}
       <div className="absolute top-0 left-0 w-full p-8 flex justify-between items-start z-10 pointer-events-none">
         <div>
           <h1 className="text-4xl font-extralight tracking-tighter text-white/90">
           </h1>
+          <div className="mt-2 text-sm font-light text-white/60">{state.statusMessage}</div>
+          {state.warnings.length > 0 && (
+            <details className="mt-1 max-w-md text-xs font-mono text-amber-200/80 pointer-events-auto">
+              <summary className="cursor-pointer select-none">
+                {state.warnings.length} scene fix-up{state.warnings.length === 1 ? '' : 's'}
+              </summary>
+              <ul className="mt-1 max-h-40 overflow-y-auto space-y-0.5 bg-black/40 border border-white/10 rounded-lg px-3 py-2">
+                {state.warnings.map((w, i) => <li key={i}>{w}</li>)}
+              </ul>
+            </details>
+          )}
+          <div className="mt-3 flex items-center gap-2 text-xs text-white/80 pointer-events-auto">
+            <span className="font-mono">Motion</span>
+            {MOTION_MODES.map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => handleMotionMode(mode)}
+                className={`px-3 py-1 border rounded-full transition-all ${state.motionMode === mode ? 'bg-white/30 border-white/40' : 'bg-white/10 hover:bg-white/20 border-white/20'}`}
+                title={{
+                  drift: 'The world drifts toward you',
+                  paused: 'Stop the world to look around (Space)',
+                  reverse: 'The world drifts away from you',
+                  'free-fly': 'The world stands still and the camera flies where it looks',
+                }[mode]}
+              >
+                {{ drift: 'Drift', paused: 'Pause', reverse: 'Reverse', 'free-fly': 'Fly' }[mode]}
+              </button>
+            ))}
+            <input
+              type="range"
+              min={Math.log2(MOTION_SPEED_MIN)}
+              max={Math.log2(MOTION_SPEED_MAX)}
+              step={0.05}
+              value={Math.log2(state.cameraSpeed)}
+              onChange={(e) => handleMotionSpeed(2 ** Number(e.target.value))}
+              className="w-24"
+              title="Speed (left fist + raise or lower the right palm)"
+            />
+            <span className="font-mono tabular-nums">{state.cameraSpeed.toFixed(2)}×</span>
+          </div>
+          {postProcessing && (
+            <div className="mt-3 flex items-center gap-2 text-xs text-white/80 pointer-events-auto">
+              <span className="font-mono">Effects</span>
+              <select
+                value={postProcessing.settings.quality}
+                onChange={(e) => handlePostProcessing({ quality: e.target.value as PostQuality })}
+                className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-white/80 focus:outline-none"
+                title="Post-processing quality"
+              >
+                {POST_QUALITIES.map((quality) => (
+                  <option key={quality} value={quality} className="bg-[#050505]">
+                    {{ off: 'Off', low: 'Low', medium: 'Medium', high: 'High' }[quality]}
+                  </option>
+                ))}
+              </select>
+              {POST_EFFECTS.map((effect) => (
+                <label key={effect} className="flex items-center gap-1 select-none cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={postProcessing.settings.effects[effect]}
+                    onChange={(e) => handlePostProcessing({ effects: { [effect]: e.target.checked } })}
+                    disabled={postProcessing.settings.quality === 'off'}
+                    className="accent-blue-500"
+                  />
+                  {{ bloom: 'Bloom', depthOfField: 'Focus', vignette: 'Vignette', grain: 'Grain' }[effect]}
+                </label>
+              ))}
+              <label
+                className="flex items-center gap-1 select-none cursor-pointer"
+                title="Lower the quality while the frame rate is low, and raise it again once it recovers"
+              >
+                <input
+                  type="checkbox"
+                  checked={postProcessing.settings.adaptive}
+                  onChange={(e) => handlePostProcessing({ adaptive: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                Auto
+              </label>
+              {postProcessing.active !== postProcessing.settings.quality && (
+                <span className="font-mono text-white/50">now {postProcessing.active}</span>
+              )}
+            </div>
+          )}
+          <div className="mt-3 flex items-center gap-2 text-xs text-white/80 pointer-events-auto">
+            <span className="font-mono">Camera path</span>
+            {pathRecording ? (
+              <>
+                <span className="font-mono text-red-300">● {pathRecording.keyframes} keyframe{pathRecording.keyframes === 1 ? '' : 's'}</span>
+                {!pathRecording.fromGestures && (
+                  <button
+                    type="button"
+                    onClick={handleAddKeyframe}
+                    className="px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/20 rounded-full transition-all"
+                    title="Add a keyframe at the current camera pose"
+                  >
+                    Keyframe
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleStopPathRecording}
+                  className="px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/20 rounded-full transition-all"
+                  title="Stop recording and name the path"
+                >
+                  Stop
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => handleStartPathRecording(true)}
+                  disabled={!!playingPath}
+                  className="px-3 py-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-white/20 rounded-full transition-all"
+                  title="Record the camera as you move it with gestures"
+                >
+                  Record
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleStartPathRecording(false)}
+                  disabled={!!playingPath}
+                  className="px-3 py-1 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-white/20 rounded-full transition-all"
+                  title="Build a path from keyframes you place one by one"
+                >
+                  Place keyframes
+                </button>
+                {cameraPathNames.length > 0 && (
+                  <>
+                    <select
+                      value={chosenPath}
+                      onChange={(e) => setChosenPath(e.target.value)}
+                      disabled={!!playingPath}
+                      className="bg-white/5 border border-white/10 rounded-full px-3 py-1 text-white/80 focus:outline-none"
+                    >
+                      {cameraPathNames.map((name) => (
+                        <option key={name} value={name} className="bg-[#050505]">{name}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={handleTogglePathPlayback}
+                      className="px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/20 rounded-full transition-all"
+                      title="Fly the camera along the chosen path"
+                    >
+                      {playingPath ? 'Stop' : 'Play'}
+                    </button>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+          {selection && (
+            <div className="mt-3 flex items-center gap-2 text-xs text-white/80 pointer-events-auto">
+              <span className="font-mono">
+                {selection.pinned ? '📌 ' : ''}{selection.group ?? selection.name}
+                {selection.count > 1 ? ` (${selection.count} objects)` : ''}
+              </span>
+              <button
+                type="button"
+                onClick={handleTogglePin}
+                className="px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/20 rounded-full transition-all"
+                title={selection.pinned ? 'Let this object expire again (P)' : 'Keep this object until it is removed (P)'}
+              >
+                {selection.pinned ? 'Unpin' : 'Pin'}
+              </button>
+              <button
+                type="button"
+                onClick={handleToggleGroup}
+                className="px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/20 rounded-full transition-all"
+                title={selection.group ? 'Split this group into separate objects (G)' : 'Group the selected objects so they move as one (G)'}
+              >
+                {selection.group ? 'Ungroup' : 'Group'}
+              </button>
+            </div>
+          )}
         </div>
         <div className="flex gap-3 items-center pointer-events-auto">
+          <select
+            value={providerId}
+            onChange={(e) => handleProviderChange(e.target.value)}
+            disabled={state.isGenerating}
+            className="bg-white/5 border border-white/10 rounded-full px-4 py-3 text-white/80 text-sm focus:outline-none backdrop-blur-md"
+            title="Scene generation backend"
+          >
+            {providerManager.list().map((p) => (
+              <option key={p.id} value={p.id} className="bg-[#050505]">
+                {p.label}{p.isAvailable() ? '' : ' (unavailable)'}
+              </option>
+            ))}
+          </select>
+          <label
+            className="flex items-center gap-2 text-white/70 text-xs select-none cursor-pointer"
+            title="Generate new sky and terrain images even when cached ones exist for this ambience"
+          >
+            <input
+              type="checkbox"
+              checked={regenerateTextures}
+              onChange={(e) => setRegenerateTextures(e.target.checked)}
+              disabled={state.isGenerating || proceduralTextures}
+              className="accent-blue-500"
+            />
+            Regenerate anyway
+          </label>
+          <label
+            className="flex items-center gap-2 text-white/70 text-xs select-none cursor-pointer"
+            title="Draw sky and terrain procedurally from the ambience instead of generating images"
+          >
+            <input
+              type="checkbox"
+              checked={proceduralTextures}
+              onChange={(e) => setProceduralTextures(e.target.checked)}
+              disabled={state.isGenerating}
+              className="accent-blue-500"
+            />
+            Procedural sky
+          </label>
           <input 
             ref={promptInputRef}
             type="text" 
@@ -293,6 +1098,119 @@ const App: React.FC = () => {
           >
             {state.isGenerating ? 'Manifesting...' : 'Manifest'}
           </button>
+          <button
+            type="button"
+            onClick={() => handleHistoryStep('undo')}
+            disabled={!history.canUndo}
+            className="px-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-white/20 text-white text-sm rounded-full transition-all"
+            title="Undo the last move, rotation, scale or generation (Ctrl+Z, or say “undo”)"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => handleHistoryStep('redo')}
+            disabled={!history.canRedo}
+            className="px-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-white/20 text-white text-sm rounded-full transition-all"
+            title="Redo what was undone (Ctrl+Shift+Z, or say “redo”)"
+          >
+            Redo
+          </button>
+          <button
+            type="button"
+            onClick={handleExportScene}
+            disabled={state.isGenerating}
+            className="px-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-white/20 text-white text-sm rounded-full transition-all"
+            title="Save the current scene to a file"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => sceneFileInputRef.current?.click()}
+            disabled={state.isGenerating}
+            className="px-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-white/20 text-white text-sm rounded-full transition-all"
+            title="Load a saved scene, replacing the current one"
+          >
+            Load
+          </button>
+          <button
+            type="button"
+            onClick={() => handleExportModel('ply')}
+            disabled={state.isGenerating}
+            className="px-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-white/20 text-white text-sm rounded-full transition-all"
+            title="Export all visible points as one binary PLY point cloud"
+          >
+            PLY
+          </button>
+          <button
+            type="button"
+            onClick={() => handleExportModel('glb')}
+            disabled={state.isGenerating}
+            className="px-4 py-3 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-white/20 text-white text-sm rounded-full transition-all"
+            title="Export the scene as glTF (.glb), one named node per object"
+          >
+            glTF
+          </button>
+          <button
+            type="button"
+            onClick={handleSaveStill}
+            className="px-4 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white text-sm rounded-full transition-all"
+            title="Save a PNG of the view, rendered larger than the window"
+          >
+            Still
+          </button>
+          <select
+            value={stillScale}
+            onChange={(e) => setStillScale(Number(e.target.value))}
+            className="bg-white/5 border border-white/10 rounded-full px-3 py-3 text-white/80 text-sm focus:outline-none"
+            title="Still size, as a multiple of the window"
+          >
+            {[2, 3, 4].map((n) => (
+              <option key={n} value={n} className="bg-[#050505]">{n}×</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleToggleRecording}
+            className={`px-4 py-3 border text-white text-sm rounded-full transition-all ${isRecording ? 'bg-red-600/80 hover:bg-red-500 border-red-400/60' : 'bg-white/10 hover:bg-white/20 border-white/20'}`}
+            title={`Record the view as WebM video (both fists held, or say “start recording”); stops by itself after ${RECORDING_MAX_SECONDS / 60} minutes`}
+          >
+            {isRecording ? '■ Stop video' : '● Video'}
+          </button>
+          <label
+            className="flex items-center gap-2 text-white/70 text-xs select-none cursor-pointer"
+            title="Show the hand monitor in the corner of recordings"
+          >
+            <input
+              type="checkbox"
+              checked={recordHandOverlay}
+              onChange={(e) => setRecordHandOverlay(e.target.checked)}
+              disabled={isRecording}
+            />
+            Hands
+          </label>
+          <input
+            ref={sceneFileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImportScene(file);
+            }}
+          />
+          {state.isGenerating && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-5 py-3 bg-white/10 hover:bg-white/20 border border-white/20 text-white rounded-full font-semibold transition-all active:scale-95"
+              title="Stop this generation; nothing from it will be shown"
+            >
+              Cancel
+            </button>
+          )}
         </div>
       </div>
 
@@ -302,11 +1220,17 @@ const App: React.FC = () => {
         <div>Right hand: Navigation</div>
         <div>→  Palm move → orbit</div>
         <div>→  Fist up/down → zoom</div>
+        <div>→  Pinch + swipe left / right → undo / redo</div>
         <br />
         <div>Left hand: Manipulation (Hover to select object)</div>
         <div>→  Pinch + move → move object</div>
         <div>→  Fist rotate → rotate</div>
         <div>→  Both-hand pinch → scale</div>
+        <div>→  Palm + right fist → pin / unpin</div>
+        <div>→  Palm + right pinch → add to selection</div>
+        <div>→  Both palms → clear selection</div>
+        <div>→  Both fists (hold) → record video</div>
+        <div>→  Fist + right palm up/down → speed</div>
       </div>
 
       {/* UI Elements */}
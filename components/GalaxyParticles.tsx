@@ -21,8 +21,25 @@ type Particle = {
   twinkleSpeed: number;
 };
 
-export const GalaxyParticles: React.FC = () => {
+type GalaxyParticlesProps = {
+  /** Overall opacity, 0–1 (default 1). */
+  opacity?: number;
+  /** CSS color multiplied into the star colors (default white). */
+  tint?: string;
+};
+
+/** Parse a #rrggbb tint into 0–1 channel factors. */
+const tintFactors = (tint: string): [number, number, number] => {
+  const match = /^#?([\da-f]{2})([\da-f]{2})([\da-f]{2})$/i.exec(tint);
+  if (!match) return [1, 1, 1];
+  return [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255];
+};
+
+export const GalaxyParticles: React.FC<GalaxyParticlesProps> = ({ opacity = 1, tint = '#ffffff' }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read by the draw loop, so tint changes do not restart the animation.
+  const tintRef = useRef(tintFactors(tint));
+  tintRef.current = tintFactors(tint);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -79,7 +96,10 @@ export const GalaxyParticles: React.FC = () => {
         const scale = 0.4 + 0.6 * p.z;
         const twinkle = 0.5 + 0.5 * Math.sin(t * p.twinkleSpeed + p.phase);
         const alpha = twinkle * scale;
-        const base = p.color.replace(/[\d.]+\)$/g, `${alpha})`);
+        const [tr, tg, tb] = tintRef.current;
+        const base = p.color.replace(/rgba\((\d+),(\d+),(\d+),[\d.]+\)$/, (_, r, g, b) =>
+          `rgba(${Math.round(Number(r) * tr)},${Math.round(Number(g) * tg)},${Math.round(Number(b) * tb)},${alpha})`
+        );
         const size = p.size * scale * (1 + 0.3 * Math.sin(t * 0.5 + p.phase));
 
         const sx = (p.x - w / 2) * (1 / (1 + p.z * 0.3)) + w / 2;
@@ -105,7 +125,7 @@ export const GalaxyParticles: React.FC = () => {
     <canvas
       ref={canvasRef}
       className="absolute inset-0 z-0 pointer-events-none"
-      style={{ background: 'transparent' }}
+      style={{ background: 'transparent', opacity, transition: 'opacity 1s ease' }}
       aria-hidden
     />
   );
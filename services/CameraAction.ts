@@ -25,6 +25,8 @@ export interface CameraActionContext {
   lastTwoHandDistance?: number;
   /** For left-hand pinch rotate: previous frame angle of index-from-wrist (radians). */
   lastLeftAngle?: number;
+  /** True on the first frame the gesture matched, for one-shot actions (toggles). */
+  started: boolean;
 }
 
 /**
@@ -32,7 +34,7 @@ export interface CameraActionContext {
  * Subclasses define which gesture and which hand they handle, and implement execute().
  */
 export abstract class CameraAction {
-  /** Gesture name that triggers this action (e.g. 'Open Palm', 'Fist', 'Pinch', 'Pinch+Pinch'). */
+  /** Gesture name that triggers this action (e.g. 'Open Palm', 'Fist', 'Pinch'); for 'both', 'left+right' (e.g. 'Pinch+Pinch'). */
   abstract readonly gesture: string;
   /** Which hand(s) this action listens to. Use 'both' for two-hand gestures. */
   abstract readonly hand: 'left' | 'right' | 'both';
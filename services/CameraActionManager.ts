@@ -16,6 +16,8 @@ export class CameraActionManager {
   private lastRight: { x: number; y: number } = { x: 0, y: 0 };
   private lastTwoHandDistance: number = 0;
   private lastLeftAngle: number = 0;
+  /** Gestures seen last frame, to tell when one starts. */
+  private lastGestures: Record<'left' | 'right' | 'both', string | null> = { left: null, right: null, both: null };
 
   /**
    * Register an action. It will be run when the matching hand has the matching gesture.
@@ -42,7 +44,9 @@ export class CameraActionManager {
 
   /**
    * Priority (high to low):
-   * (1) Left hand available → manipulation only: left-hand actions + two-hand pinch scale. Right-hand navigation disabled.
+   * (1) Left hand available → manipulation only: two-hand actions, else left-hand actions. A matched two-hand
+   *     gesture (e.g. both fists to record) suppresses the left hand's own action for its gesture (e.g. rotate).
+   *     Right-hand navigation disabled.
    * (2) Left hand not available → right hand does navigation (orbit by palm, dolly by fist).
    */
   process(
@@ -54,15 +58,18 @@ export class CameraActionManager {
     const right = handStats.right;
     const manipulationMode = !!left;
 
-    // --- Highlight: from left hand when present ---
+    // --- Highlight: from left hand when present; cleared when it leaves (so a clicked selection stays) ---
     if (left) {
       const closestId = renderer.findClosestObjectAtScreenPoint(left.center.x, left.center.y);
       renderer.setSelectedObjectId(closestId);
-    } else {
+    } else if (this.lastGestures.left !== null) {
       renderer.setSelectedObjectId(null);
     }
 
-    // --- Priority 1: Two-hand manipulation (both hands) — pinch to scale ---
+    // --- Priority 1: Two-hand manipulation (both hands), matched as 'left+right' (e.g. pinch to scale) ---
+    const bothGesture = left && right ? `${left.gesture}+${right.gesture}` : null;
+    const bothStarted = this.track('both', bothGesture);
+    let bothMatched = false;
     if (left && right) {
       const dist = Math.hypot(right.center.x - left.center.x, right.center.y - left.center.y);
       const ctx: CameraActionContext = {
@@ -74,18 +81,22 @@ export class CameraActionManager {
         leftHand: left,
         rightHand: right,
         lastTwoHandDistance: this.lastTwoHandDistance,
+        started: bothStarted,
       };
       this.lastTwoHandDistance = dist;
       for (const action of this.actions) {
-        if (action.hand !== 'both') continue;
-        if (left.gesture === 'Pinch' && right.gesture === 'Pinch' && action.gesture === 'Pinch+Pinch') {
+        if (action.hand === 'both' && action.gesture === bothGesture) {
           action.execute(ctx);
+          bothMatched = true;
         }
       }
     } else {
       this.lastTwoHandDistance = 0;
     }
 
+    const leftStarted = this.track('left', left?.gesture ?? null);
+    const rightStarted = this.track('right', right?.gesture ?? null);
+
     // --- Priority 1: Left-hand manipulation (when left is available) ---
     if (left) {
       const delta = {
@@ -93,7 +104,9 @@ export class CameraActionManager {
         y: left.center.y - this.lastLeft.y,
       };
       const ctxWithAngle = { lastLeftAngle: this.lastLeftAngle };
-      this.runMatching('left', left, delta, this.lastLeft, scene, renderer, left, right, ctxWithAngle);
+      if (!bothMatched) {
+        this.runMatching('left', left, delta, this.lastLeft, scene, renderer, leftStarted, left, right, ctxWithAngle);
+      }
       this.lastLeft = { x: left.center.x, y: left.center.y };
       const lm = left.landmarks;
       if (lm?.[8] != null && lm?.[0] != null) {
@@ -107,13 +120,20 @@ export class CameraActionManager {
         x: right.center.x - this.lastRight.x,
         y: right.center.y - this.lastRight.y,
       };
-      this.runMatching('right', right, delta, this.lastRight, scene, renderer, left, right);
+      this.runMatching('right', right, delta, this.lastRight, scene, renderer, rightStarted, left, right);
     }
     if (right) {
       this.lastRight = { x: right.center.x, y: right.center.y };
     }
   }
 
+  /** Remember this frame's gesture for a hand (or hand pair); true if it differs from last frame's. */
+  private track(hand: 'left' | 'right' | 'both', gesture: string | null): boolean {
+    const started = gesture !== null && gesture !== this.lastGestures[hand];
+    this.lastGestures[hand] = gesture;
+    return started;
+  }
+
   private runMatching(
     hand: 'left' | 'right',
     handData: HandStats,
@@ -121,6 +141,7 @@ export class CameraActionManager {
     lastCenter: { x: number; y: number },
     scene: SceneGraph | null,
     renderer: DreamRenderer,
+    started: boolean,
     leftHand?: HandStats,
     rightHand?: HandStats,
     extraCtx?: Partial<CameraActionContext>
@@ -134,6 +155,7 @@ export class CameraActionManager {
       leftHand,
       rightHand,
       lastTwoHandDistance: this.lastTwoHandDistance,
+      started,
       ...extraCtx,
     };
 
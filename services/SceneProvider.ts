@@ -0,0 +1,68 @@
+import type { ObjectSummary, SceneEditOperation, SceneGraph, TextureSource } from '../types';
+import type { RequestOptions } from './requestControl';
+import type { TextureRequestOptions } from './textureCache';
+
+/**
+ * What a prompt asks for. An 'edit' changes objects already in the scene ("move the tree to the left");
+ * see parseEditPrompt. A 'compose' prompt may describe a new environment, new objects, or both
+ * ("a misty dawn valley with three sakura trees"), and both halves are applied together.
+ */
+export type PromptDecomposition =
+  | { kind: 'edit' }
+  | {
+      kind: 'compose';
+      /** Environment description for generateSkyTexture/generateTerrainTexture; null keeps the current sky and terrain. */
+      ambience: string | null;
+      /** Objects to add (unvalidated; run through validateSceneGraph); null when the prompt names no objects. */
+      scene: SceneGraph | null;
+      /** Fog, light and day cycle for the environment (unvalidated; run through validateAtmosphere), if given. */
+      atmosphere?: unknown;
+    };
+
+/** Options for calls that produce scene objects. */
+export interface ObjectStreamOptions extends RequestOptions {
+  /**
+   * Receives each raw (unvalidated) object of the resulting scene, in order, as soon as it is complete,
+   * possibly long before the call resolves. Every object in the result is passed here exactly once.
+   */
+  onObject?: (raw: unknown) => void;
+}
+
+/**
+ * A backend that turns prompts into scene content (scene graph + sky/terrain textures).
+ * Implementations may call a remote model (geminiService) or run fully offline (offlineSceneProvider).
+ * Every call takes an optional abort signal; once it aborts, the call rejects with an AbortError.
+ */
+export interface SceneProvider {
+  /** Stable id used for runtime selection (e.g. 'gemini', 'offline'). */
+  readonly id: string;
+  /** Human-readable name shown in the provider picker. */
+  readonly label: string;
+
+  /** Whether the provider can run in this environment (e.g. an API key is configured). */
+  isAvailable(): boolean;
+
+  /**
+   * Split a prompt into its environment and object parts in a single pass.
+   * `liveObjects` lets the provider recognize edits that refer to objects already in the scene.
+   */
+  decomposePrompt(prompt: string, liveObjects: ObjectSummary[], options?: ObjectStreamOptions): Promise<PromptDecomposition>;
+
+  /** Objects only (unvalidated); run through validateSceneGraph before rendering. */
+  parseScenePrompt(prompt: string, options?: ObjectStreamOptions): Promise<SceneGraph>;
+
+  /**
+   * Turn an edit prompt into operations on `liveObjects` (ids, names, transforms).
+   * Output is unvalidated; run it through validateSceneEdits before applying.
+   */
+  parseEditPrompt(prompt: string, liveObjects: ObjectSummary[], options?: RequestOptions): Promise<SceneEditOperation[]>;
+
+  /**
+   * Returns an image URL or a procedural spec for the sky sphere, or '' when no image could be produced.
+   * Providers that generate remotely may serve a cached image; `options.regenerate` forces a new one.
+   */
+  generateSkyTexture(ambience: string, options?: TextureRequestOptions): Promise<TextureSource>;
+
+  /** Returns the same for the (tiled) terrain plane; images are made seamless, specs are drawn seamless. */
+  generateTerrainTexture(ambience: string, options?: TextureRequestOptions): Promise<TextureSource>;
+}
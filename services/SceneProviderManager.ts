@@ -0,0 +1,49 @@
+import type { SceneProvider } from './SceneProvider';
+
+/**
+ * Holds the registered scene providers and which one is active.
+ * If no provider was picked explicitly, the first available one (in registration order) is used.
+ */
+export class SceneProviderManager {
+  private providers: SceneProvider[] = [];
+  private activeId: string | null = null;
+
+  /**
+   * Register a provider. Registering a second provider with the same id replaces the first.
+   */
+  register(provider: SceneProvider): void {
+    this.providers = this.providers.filter((p) => p.id !== provider.id);
+    this.providers.push(provider);
+  }
+
+  /**
+   * All registered providers, in registration order.
+   */
+  list(): SceneProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Pick the provider to use for subsequent prompts. Throws if the id is not registered.
+   */
+  setActive(id: string): void {
+    if (!this.providers.some((p) => p.id === id)) {
+      throw new Error(`Unknown scene provider: ${id}`);
+    }
+    this.activeId = id;
+  }
+
+  /**
+   * The explicitly picked provider, else the first available one, else the first registered one.
+   */
+  getActive(): SceneProvider {
+    const picked = this.providers.find((p) => p.id === this.activeId);
+    if (picked) return picked;
+    const available = this.providers.find((p) => p.isAvailable());
+    if (available) return available;
+    if (this.providers.length === 0) {
+      throw new Error('No scene provider registered');
+    }
+    return this.providers[0];
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Runtime library of point-cloud models. Entries come from a manifest file (see res/point-cloud-files/manifest.json)
+ * and from files the user drops onto the page; object types, the model's schema and the offline grammar
+ * all read the registry, so a new entry is usable without code changes.
+ */
+
+import bundledManifestUrl from '../res/point-cloud-files/manifest.json?url';
+import {
+  formatFromName,
+  parsePointCloud,
+  PointCloudFormat,
+  POINT_CLOUD_EXTENSIONS,
+  sniffPointCloudFormat,
+} from './pointCloudLoaders';
+
+/** Which axis of the source file points up; the renderer turns it to +y. */
+export type UpAxis = 'x' | 'y' | 'z' | '-x' | '-y' | '-z';
+
+const UP_AXES: UpAxis[] = ['x', 'y', 'z', '-x', '-y', '-z'];
+export const ASSET_MANIFEST_VERSION = 1;
+
+export interface AssetEntry {
+  /** Canonical object type, e.g. 'sakura-tree'. */
+  type: string;
+  /** Point-cloud file URL. */
+  url: string;
+  format: PointCloudFormat;
+  /** Other type names that resolve to this entry, e.g. 'tree'. */
+  aliases: string[];
+  /** Short description offered to the model. */
+  description: string;
+  /** Multiplier on the normalized size (largest side 100 units at scale 1). */
+  defaultScale: number;
+  upAxis: UpAxis;
+  /** Preferred colors, used when a prompt gives none; may be empty. */
+  palette: string[];
+  source: 'manifest' | 'user';
+}
+
+/** Lower-case, dash-separated type name: 'Sakura Tree' → 'sakura-tree'. */
+export function normalizeTypeName(raw: string): string {
+  return raw.trim().toLowerCase().replace(/[\s_]+/g, '-').replace(/[^a-z0-9-]/g, '');
+}
+
+function isRecord(raw: unknown): raw is Record<string, unknown> {
+  return !!raw && typeof raw === 'object' && !Array.isArray(raw);
+}
+
+export class AssetRegistry {
+  private entries = new Map<string, AssetEntry>();
+  /** Alias → canonical type. */
+  private aliases = new Map<string, string>();
+  private loading: Promise<string[]> | null = null;
+
+  /**
+   * Add an entry, replacing any entry of the same type. Its aliases take precedence over older ones,
+   * but never shadow another entry's type.
+   */
+  register(entry: AssetEntry): void {
+    this.unregister(entry.type);
+    const aliases = entry.aliases.filter((alias) => alias !== entry.type && !this.entries.has(alias));
+    this.entries.set(entry.type, { ...entry, aliases });
+    this.aliases.delete(entry.type);
+    for (const alias of aliases) this.aliases.set(alias, entry.type);
+  }
+
+  private unregister(type: string): void {
+    if (!this.entries.delete(type)) return;
+    for (const [alias, target] of this.aliases) {
+      if (target === type) this.aliases.delete(alias);
+    }
+  }
+
+  /** All entries, in registration order. */
+  list(): AssetEntry[] {
+    return [...this.entries.values()];
+  }
+
+  /** Canonical type for a type or alias, or null if unknown. */
+  resolve(name: string): string | null {
+    if (this.entries.has(name)) return name;
+    return this.aliases.get(name) ?? null;
+  }
+
+  /** Entry for a type or alias. */
+  get(name: string): AssetEntry | undefined {
+    const type = this.resolve(name);
+    return type ? this.entries.get(type) : undefined;
+  }
+
+  /** Every accepted type name: canonical types and aliases. */
+  typeNames(): string[] {
+    return [...this.entries.keys(), ...this.aliases.keys()];
+  }
+
+  /**
+   * Register the entries of a parsed manifest. `resolveFile` maps a manifest `file` to a URL (null if missing).
+   * Returns one warning per skipped or repaired entry.
+   */
+  loadManifest(manifest: unknown, resolveFile: (file: string) => string | null): string[] {
+    if (!isRecord(manifest) || !Array.isArray(manifest.assets)) {
+      throw new Error('Asset manifest has no "assets" list');
+    }
+    if (typeof manifest.version === 'number' && manifest.version > ASSET_MANIFEST_VERSION) {
+      throw new Error(`Asset manifest version ${manifest.version} is newer than supported (${ASSET_MANIFEST_VERSION})`);
+    }
+    const warnings: string[] = [];
+    manifest.assets.forEach((raw, index) => {
+      const input = isRecord(raw) ? raw : {};
+      const type = typeof input.type === 'string' ? normalizeTypeName(input.type) : '';
+      const label = type || `Asset #${index + 1}`;
+      const url = typeof input.file === 'string' ? resolveFile(input.file) : null;
+      if (!type || !url) {
+        warnings.push(`${label}: ${type ? `file "${String(input.file ?? '')}" not found` : 'missing type'}, skipped`);
+        return;
+      }
+      const format = typeof input.format === 'string'
+        ? POINT_CLOUD_EXTENSIONS[input.format.toLowerCase()] ?? null
+        : formatFromName(String(input.file));
+      if (!format) {
+        warnings.push(`${label}: unknown point-cloud format, skipped`);
+        return;
+      }
+      let upAxis: UpAxis = 'y';
+      if (input.upAxis !== undefined) {
+        if (UP_AXES.includes(input.upAxis as UpAxis)) upAxis = input.upAxis as UpAxis;
+        else warnings.push(`${label}: unknown upAxis "${String(input.upAxis)}", using y`);
+      }
+      let defaultScale = 1;
+      if (input.defaultScale !== undefined) {
+        if (typeof input.defaultScale === 'number' && input.defaultScale > 0) defaultScale = input.defaultScale;
+        else warnings.push(`${label}: invalid defaultScale, using 1`);
+      }
+      const palette = (Array.isArray(input.palette) ? input.palette : []).filter(
+        (c): c is string => typeof c === 'string' && /^#[0-9a-f]{6}$/i.test(c)
+      );
+      this.register({
+        type,
+        url,
+        format,
+        aliases: (Array.isArray(input.aliases) ? input.aliases : [])
+          .filter((a): a is string => typeof a === 'string')
+          .map(normalizeTypeName)
+          .filter(Boolean),
+        description: typeof input.description === 'string' ? input.description.trim() : '',
+        defaultScale,
+        upAxis,
+        palette: palette.map((c) => c.toUpperCase()),
+        source: 'manifest',
+      });
+    });
+    return warnings;
+  }
+
+  /**
+   * Fetch and register a manifest. Files are looked up in `files` (name → URL, e.g. bundled assets) first,
+   * then relative to the manifest. The returned promise is also what `ready` waits for.
+   */
+  loadManifestUrl(url: string, files: Record<string, string> = {}): Promise<string[]> {
+    const base = new URL(url, globalThis.location?.href);
+    this.loading = (async () => {
+      const response = await fetch(base);
+      if (!response.ok) throw new Error(`Asset manifest ${url}: HTTP ${response.status}`);
+      const manifest: unknown = await response.json();
+      return this.loadManifest(manifest, (file) => {
+        if (files[file]) return files[file];
+        try {
+          return new URL(file, base).href;
+        } catch {
+          // e.g. a manifest inlined as a data: URL has no directory to resolve against.
+          return null;
+        }
+      });
+    })();
+    return this.loading;
+  }
+
+  /** Resolves once the last manifest load finished (successfully or not). */
+  async ready(): Promise<void> {
+    await this.loading?.catch(() => undefined);
+  }
+
+  /**
+   * Register a point-cloud file picked or dropped by the user, as type named after the file
+   * ('My Ship.pcd' → 'my-ship'). The file stays in memory for this session only.
+   */
+  async registerFile(file: File): Promise<AssetEntry> {
+    const format = sniffPointCloudFormat(await file.slice(0, 512).arrayBuffer()) ?? formatFromName(file.name);
+    if (!format) throw new Error(`${file.name} is not a supported point-cloud file`);
+    // Parse once now, so a broken file is reported on drop rather than when a prompt uses it.
+    parsePointCloud(await file.arrayBuffer(), format).dispose();
+    const type = normalizeTypeName(file.name.replace(/\.[^.]*$/, ''));
+    if (!type) throw new Error(`${file.name}: cannot derive a type name`);
+    const previous = this.entries.get(type);
+    if (previous?.source === 'user') URL.revokeObjectURL(previous.url);
+    const entry: AssetEntry = {
+      type,
+      url: URL.createObjectURL(file),
+      format,
+      aliases: [],
+      description: `user model "${file.name}"`,
+      defaultScale: 1,
+      // Splats are usually exported from COLMAP-style reconstructions, which have y pointing down.
+      upAxis: format === 'splat' ? '-y' : 'y',
+      palette: [],
+      source: 'user',
+    };
+    this.register(entry);
+    return entry;
+  }
+}
+
+/** Shared registry used by the renderer, validation and providers. */
+export const assetRegistry = new AssetRegistry();
+
+/** Point-cloud files shipped with the app, by file name. */
+const BUNDLED_FILES: Record<string, string> = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<string>('../res/point-cloud-files/*.{ply,pcd,xyz,txt,pts,csv,las,laz,splat}', {
+      query: '?url',
+      import: 'default',
+      eager: true,
+    })
+  ).map(([path, url]) => [path.slice(path.lastIndexOf('/') + 1), url])
+);
+
+/** Load the bundled manifest into the shared registry; returns its warnings. */
+export function loadBundledAssets(): Promise<string[]> {
+  return assetRegistry.loadManifestUrl(bundledManifestUrl, BUNDLED_FILES);
+}
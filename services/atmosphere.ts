@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import type { Atmosphere } from '../types';
+import { proceduralSpecFromAmbience } from './proceduralTextures';
+
+/**
+ * Atmosphere: fog, light color and intensity, and an optional day/night cycle. The model returns one per scene;
+ * atmosphereFromAmbience derives one from keywords when it does not. AtmosphereLook is what the atmosphere
+ * looks like at a moment of the cycle, applied by the renderer to the fog, lights, sky tint and point brightness,
+ * and by the app to the galaxy overlay.
+ */
+
+/** Allowed values, shared with validation and the model schema. */
+export const FOG_DENSITY_RANGE: [number, number] = [0, 0.1];
+export const LIGHT_INTENSITY_RANGE: [number, number] = [0, 2];
+export const DAY_PERIOD_RANGE: [number, number] = [10, 3600];
+
+/** Used until a scene sets an atmosphere, and for saved scenes without one: no fog. */
+export const DEFAULT_ATMOSPHERE: Atmosphere = {
+  fogColor: '#F7E5EC',
+  fogDensity: 0,
+  lightColor: '#FFFFFF',
+  lightIntensity: 1,
+  dayCycle: null,
+};
+
+/** What night turns the fog, light and sky toward. */
+const NIGHT_FOG = new THREE.Color('#05060F');
+const NIGHT_LIGHT = new THREE.Color('#6F7FD8');
+const NIGHT_SKY_TINT = new THREE.Color('#1C2240');
+/** Darkest light level at midnight, as a fraction of the daytime level. */
+const NIGHT_LIGHT_LEVEL = 0.2;
+
+const FOG_KEYWORDS: { keywords: string[]; density: number }[] = [
+  { keywords: ['fog', 'foggy', 'mist', 'misty', 'hazy', 'haze', 'storm', 'smoke', 'smoky'], density: 0.03 },
+  { keywords: ['underwater', 'murky', 'gloomy', 'rain', 'rainy', 'snow', 'snowy'], density: 0.02 },
+  { keywords: ['clear', 'crisp', 'space', 'cosmic', 'desert'], density: 0.004 },
+];
+
+const LIGHT_KEYWORDS: { keywords: string[]; color: string; intensity: number }[] = [
+  { keywords: ['night', 'midnight', 'moon', 'moonlit', 'starry', 'dark'], color: '#8FA2FF', intensity: 0.5 },
+  { keywords: ['sunset', 'dusk', 'evening', 'twilight', 'autumn'], color: '#FFB37A', intensity: 0.8 },
+  { keywords: ['dawn', 'sunrise', 'morning'], color: '#FFD8C0', intensity: 0.9 },
+  { keywords: ['neon', 'cyberpunk', 'synthwave'], color: '#C27BFF', intensity: 0.8 },
+  { keywords: ['underwater', 'ocean', 'sea'], color: '#7FD6E0', intensity: 0.8 },
+  { keywords: ['noon', 'sunny', 'bright', 'summer', 'desert'], color: '#FFF4DC', intensity: 1.3 },
+];
+
+/** Fog for an ambience without mist or clarity words. */
+const AMBIENCE_FOG_DENSITY = 0.01;
+
+const CYCLE_KEYWORDS = ['cycle', 'timelapse', 'passing', 'days', 'nights'];
+/** Cycle used when the ambience asks for one: two minutes a day, starting mid-morning. */
+const KEYWORD_DAY_CYCLE = { period: 120, start: 0.35 };
+
+/**
+ * Atmosphere from an ambience description, like proceduralSpecFromAmbience: the fog takes the sky's horizon
+ * color and a density from mist/clarity words, the light a color and intensity from time-of-day and mood
+ * words, and "day and night" or "cycle" ask for a day/night cycle.
+ */
+export function atmosphereFromAmbience(ambience: string): Atmosphere {
+  const words = new Set(ambience.toLowerCase().match(/[a-z]+/g) ?? []);
+  const has = (keywords: string[]) => keywords.some((k) => words.has(k));
+  const light = LIGHT_KEYWORDS.find(({ keywords }) => has(keywords));
+  const cycles = has(CYCLE_KEYWORDS) || (words.has('day') && words.has('night'));
+  return {
+    fogColor: proceduralSpecFromAmbience(ambience).sky[2],
+    fogDensity: FOG_KEYWORDS.find(({ keywords }) => has(keywords))?.density ?? AMBIENCE_FOG_DENSITY,
+    lightColor: light?.color ?? DEFAULT_ATMOSPHERE.lightColor,
+    lightIntensity: light?.intensity ?? DEFAULT_ATMOSPHERE.lightIntensity,
+    dayCycle: cycles ? { ...KEYWORD_DAY_CYCLE } : null,
+  };
+}
+
+/** An atmosphere as it looks at one moment. */
+export interface AtmosphereLook {
+  fogColor: THREE.Color;
+  fogDensity: number;
+  lightColor: THREE.Color;
+  /** Multiple of the default light intensity. */
+  lightIntensity: number;
+  /** Multiplied into the sky color. */
+  skyTint: THREE.Color;
+  /** Multiplied into point colors. */
+  pointBrightness: number;
+  /** Opacity of the galaxy overlay stars, 0–1: brighter in the dark. */
+  starVisibility: number;
+}
+
+/** Time of day (0–1, 0 is midnight) `elapsed` seconds after the atmosphere was applied; noon without a cycle. */
+export function timeOfDay(atmosphere: Atmosphere, elapsed: number): number {
+  const cycle = atmosphere.dayCycle;
+  if (!cycle) return 0.5;
+  return (((cycle.start + elapsed / cycle.period) % 1) + 1) % 1;
+}
+
+/**
+ * What `atmosphere` looks like `elapsed` seconds after it was applied. Pass `out` to fill an existing look
+ * instead of allocating one, as the renderer does every frame.
+ */
+export function atmosphereLook(
+  atmosphere: Atmosphere,
+  elapsed: number,
+  out: AtmosphereLook = {
+    fogColor: new THREE.Color(),
+    fogDensity: 0,
+    lightColor: new THREE.Color(),
+    lightIntensity: 0,
+    skyTint: new THREE.Color(),
+    pointBrightness: 0,
+    starVisibility: 0,
+  },
+): AtmosphereLook {
+  // 1 at noon, 0 at midnight, easing through dawn and dusk.
+  const daylight = 0.5 - 0.5 * Math.cos(2 * Math.PI * timeOfDay(atmosphere, elapsed));
+  const night = 1 - daylight;
+  const lightIntensity = atmosphere.lightIntensity * (NIGHT_LIGHT_LEVEL + (1 - NIGHT_LIGHT_LEVEL) * daylight);
+  out.fogColor.set(atmosphere.fogColor).lerp(NIGHT_FOG, night * 0.85);
+  out.fogDensity = atmosphere.fogDensity;
+  out.lightColor.set(atmosphere.lightColor).lerp(NIGHT_LIGHT, night * 0.7);
+  out.lightIntensity = lightIntensity;
+  out.skyTint.set(0xffffff).lerp(NIGHT_SKY_TINT, night * 0.85);
+  out.pointBrightness = THREE.MathUtils.clamp(0.35 + 0.65 * lightIntensity, 0.35, 1.5);
+  out.starVisibility = THREE.MathUtils.clamp(1.2 - 0.6 * lightIntensity, 0.2, 1);
+  return out;
+}
+
+/** Move `current` a fraction `t` (0–1) of the way toward `target`, in place. */
+export function blendLook(current: AtmosphereLook, target: AtmosphereLook, t: number): void {
+  const mix = (a: number, b: number) => a + (b - a) * t;
+  current.fogColor.lerp(target.fogColor, t);
+  current.fogDensity = mix(current.fogDensity, target.fogDensity);
+  current.lightColor.lerp(target.lightColor, t);
+  current.lightIntensity = mix(current.lightIntensity, target.lightIntensity);
+  current.skyTint.lerp(target.skyTint, t);
+  current.pointBrightness = mix(current.pointBrightness, target.pointBrightness);
+  current.starVisibility = mix(current.starVisibility, target.starVisibility);
+}
@@ -0,0 +1,84 @@
+import type { CameraKeyframe, CameraPath, CameraPathEasing, CameraPose } from '../types';
+
+/**
+ * Camera paths: keyframed camera rig poses recorded from gestures or placed one by one, replayed with a
+ * Catmull-Rom spline through the poses. Time along a path is measured in seconds of the renderer's clock, not in
+ * world drift, so recording and playback work the same whether the world drifts, is paused or reversed, or the
+ * camera flies, and a playing path always ends.
+ */
+
+/** Seconds between keyframes sampled from gestures. */
+export const CAMERA_PATH_SAMPLE_SECONDS = 0.5;
+
+const EASINGS: Record<CameraPathEasing, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in-out': (t) => t * t * (3 - 2 * t),
+};
+
+/** How long the path plays, in seconds. */
+export function cameraPathLength(path: CameraPath): number {
+  return path.keyframes[path.keyframes.length - 1].at;
+}
+
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const t2 = t * t;
+  return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t2 * t);
+}
+
+function poseValues(pose: CameraPose): number[] {
+  return [...pose.position, ...pose.rotation];
+}
+
+/** Camera pose `time` seconds into the path (clamped to its ends), with the path's easing. */
+export function sampleCameraPath(path: CameraPath, time: number): CameraPose {
+  const { keyframes } = path;
+  const length = cameraPathLength(path);
+  const progress = length > 0 ? Math.max(0, Math.min(1, time / length)) : 1;
+  const at = EASINGS[path.easing](progress) * length;
+  let i = 0;
+  while (i < keyframes.length - 2 && keyframes[i + 1].at <= at) i++;
+  const k1 = keyframes[i];
+  const k2 = keyframes[Math.min(i + 1, keyframes.length - 1)];
+  const k0 = keyframes[Math.max(i - 1, 0)];
+  const k3 = keyframes[Math.min(i + 2, keyframes.length - 1)];
+  const span = k2.at - k1.at;
+  const t = span > 0 ? Math.max(0, Math.min(1, (at - k1.at) / span)) : 1;
+  const [v0, v1, v2, v3] = [k0, k1, k2, k3].map((k) => poseValues(k.pose));
+  const values = v1.map((_, n) => catmullRom(v0[n], v1[n], v2[n], v3[n], t));
+  return { position: [values[0], values[1], values[2]], rotation: [values[3], values[4], values[5]] };
+}
+
+/** Collects keyframes while a path is recorded; `time` is the renderer's clock, in seconds. */
+export class CameraPathRecorder {
+  private keyframes: CameraKeyframe[] = [];
+
+  /** With `fromGestures`, `sample` adds a keyframe every CAMERA_PATH_SAMPLE_SECONDS; otherwise only addKeyframe does. */
+  constructor(private readonly startTime: number, readonly fromGestures: boolean) {}
+
+  get keyframeCount(): number {
+    return this.keyframes.length;
+  }
+
+  /** Place a keyframe at the current pose; one at the same time as the last (the same frame) replaces it. */
+  addKeyframe(pose: CameraPose, time: number): void {
+    const at = Math.max(0, time - this.startTime);
+    const last = this.keyframes[this.keyframes.length - 1];
+    const keyframe = { at, pose: { position: [...pose.position], rotation: [...pose.rotation] } as CameraPose };
+    if (last && at <= last.at) this.keyframes[this.keyframes.length - 1] = { ...keyframe, at: last.at };
+    else this.keyframes.push(keyframe);
+  }
+
+  /** Called every frame while recording. */
+  sample(pose: CameraPose, time: number): void {
+    if (!this.fromGestures) return;
+    const last = this.keyframes[this.keyframes.length - 1];
+    if (!last || time - this.startTime - last.at >= CAMERA_PATH_SAMPLE_SECONDS) this.addKeyframe(pose, time);
+  }
+
+  /** The recorded path, or null with fewer than two keyframes. */
+  finish(name: string, easing: CameraPathEasing = 'ease-in-out'): CameraPath | null {
+    if (this.keyframes.length < 2) return null;
+    const first = this.keyframes[0].at;
+    return { name, easing, keyframes: this.keyframes.map((k) => ({ ...k, at: k.at - first })) };
+  }
+}
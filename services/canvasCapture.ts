@@ -0,0 +1,104 @@
+import type { DreamRenderer } from './sceneService';
+
+/**
+ * WebM recording of the renderer canvas with MediaRecorder. An overlay canvas (e.g. the hand monitor) can be
+ * composited into the bottom-right corner of every frame; recordings stop by themselves after a maximum duration.
+ */
+
+export const RECORDING_FPS = 30;
+/** Default maximum recording length, in seconds. */
+export const RECORDING_MAX_SECONDS = 120;
+/** Overlay width as a fraction of the frame width, and its margin in pixels. */
+const OVERLAY_WIDTH = 0.25;
+const OVERLAY_MARGIN = 16;
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export interface CanvasRecordingOptions {
+  /** Drawn mirrored (as the hand monitor shows it) into the bottom-right corner of every frame. */
+  overlay?: HTMLCanvasElement | null;
+  /** Stop after this many seconds (default RECORDING_MAX_SECONDS). */
+  maxSeconds?: number;
+  /** Called with the video once recording stops, by stop() or the time limit. */
+  onStop: (video: Blob, reason: 'stopped' | 'time-limit') => void;
+}
+
+/** The best WebM type this browser can record, or null if it cannot record WebM. */
+export function supportedWebmType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export class CanvasRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private stopReason: 'stopped' | 'time-limit' = 'stopped';
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeFrame: (() => void) | null = null;
+
+  constructor(private readonly renderer: DreamRenderer) {}
+
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /** Start recording; throws if the browser cannot record WebM or a recording is already running. */
+  start({ overlay, maxSeconds = RECORDING_MAX_SECONDS, onStop }: CanvasRecordingOptions): void {
+    if (this.recorder) throw new Error('Already recording');
+    const mimeType = supportedWebmType();
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+    const stream = overlay ? this.compositeStream(overlay) : this.renderer.renderer.domElement.captureStream(RECORDING_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    this.chunks = [];
+    this.stopReason = 'stopped';
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      onStop(new Blob(this.chunks, { type: 'video/webm' }), this.stopReason);
+      this.chunks = [];
+    };
+    recorder.start(1000);
+    this.recorder = recorder;
+    this.timer = setTimeout(() => this.finish('time-limit'), maxSeconds * 1000);
+  }
+
+  /** Stop recording; the video is passed to the onStop given to start(). */
+  stop(): void {
+    this.finish('stopped');
+  }
+
+  private finish(reason: 'stopped' | 'time-limit'): void {
+    if (!this.recorder) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.unsubscribeFrame?.();
+    this.timer = null;
+    this.unsubscribeFrame = null;
+    this.stopReason = reason;
+    this.recorder.stop();
+    this.recorder = null;
+  }
+
+  /** A stream of a 2D canvas onto which each rendered frame is copied with the overlay on top. */
+  private compositeStream(overlay: HTMLCanvasElement): MediaStream {
+    const source = this.renderer.renderer.domElement;
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas for recording');
+    // Copy right after each render: without preserveDrawingBuffer the WebGL canvas is cleared afterwards.
+    this.unsubscribeFrame = this.renderer.onFrame(() => {
+      ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+      if (overlay.width === 0 || overlay.height === 0) return;
+      const width = canvas.width * OVERLAY_WIDTH;
+      const height = (width * overlay.height) / overlay.width;
+      ctx.save();
+      ctx.translate(canvas.width - OVERLAY_MARGIN, canvas.height - OVERLAY_MARGIN - height);
+      ctx.scale(-1, 1);
+      ctx.drawImage(overlay, 0, 0, width, height);
+      ctx.restore();
+    });
+    return canvas.captureStream(RECORDING_FPS);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Undo/redo history. Each entry knows how to undo and redo itself; consecutive entries with the same
+ * coalesce key (e.g. the frames of one continuous gesture) merge into one, and the oldest entries are
+ * dropped beyond the size limit.
+ */
+
+export interface HistoryEntry {
+  /** Shown in status messages, e.g. 'Move 2 objects'. */
+  label: string;
+  undo(): void | Promise<void>;
+  redo(): void | Promise<void>;
+}
+
+export const HISTORY_LIMIT = 100;
+/** Pushes with the same coalesce key less than this many ms apart merge into one entry. */
+export const COALESCE_WINDOW_MS = 500;
+
+interface StoredEntry extends HistoryEntry {
+  coalesceKey?: string;
+  pushedAt: number;
+}
+
+export class CommandHistory {
+  private done: StoredEntry[] = [];
+  private undone: StoredEntry[] = [];
+  private listeners = new Set<() => void>();
+  /** Set while an undo or redo runs, so its own changes are not recorded. */
+  private replaying = false;
+
+  constructor(private readonly limit = HISTORY_LIMIT) {}
+
+  /**
+   * Record a change that has already been applied. With a `coalesceKey` matching the last entry's, pushed
+   * within COALESCE_WINDOW_MS, the last entry keeps its undo and takes this entry's redo instead.
+   */
+  push(entry: HistoryEntry, coalesceKey?: string): void {
+    if (this.replaying) return;
+    const now = performance.now();
+    const last = this.done[this.done.length - 1];
+    this.undone = [];
+    if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.pushedAt < COALESCE_WINDOW_MS) {
+      last.redo = entry.redo;
+      last.pushedAt = now;
+    } else {
+      this.done.push({ ...entry, coalesceKey, pushedAt: now });
+      if (this.done.length > this.limit) this.done.shift();
+    }
+    this.notify();
+  }
+
+  canUndo(): boolean {
+    return this.done.length > 0 && !this.replaying;
+  }
+
+  canRedo(): boolean {
+    return this.undone.length > 0 && !this.replaying;
+  }
+
+  /** Undo the last entry; resolves to its label, or null if there was nothing to undo. */
+  async undo(): Promise<string | null> {
+    if (!this.canUndo()) return null;
+    const entry = this.done.pop()!;
+    await this.replay(() => entry.undo());
+    this.undone.push(entry);
+    this.notify();
+    return entry.label;
+  }
+
+  /** Redo the last undone entry; resolves to its label, or null if there was nothing to redo. */
+  async redo(): Promise<string | null> {
+    if (!this.canRedo()) return null;
+    const entry = this.undone.pop()!;
+    await this.replay(() => entry.redo());
+    // A redone entry never merges with what comes next.
+    this.done.push({ ...entry, coalesceKey: undefined });
+    this.notify();
+    return entry.label;
+  }
+
+  clear(): void {
+    this.done = [];
+    this.undone = [];
+    this.notify();
+  }
+
+  /** Call `listener` whenever the history changes; returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async replay(step: () => void | Promise<void>): Promise<void> {
+    this.replaying = true;
+    try {
+      await step();
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
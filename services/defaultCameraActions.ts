@@ -26,40 +26,38 @@ export class DollyCameraAction extends CameraAction {
 }
 
 // ---- Left hand: object transformation ----
-// Highlight is updated by manager from left-hand projection. Selected object is that closest to left hand.
+// Highlight is updated by manager from left-hand projection. Selected object is that closest to left hand;
+// actions move it with its group, or the whole selection set if it is in the set.
 const TRANSLATION_SPEED = 100;
-/** Left Pinch + move: grab/translate selected object. */
+/** Left Pinch + move: grab/translate selected objects. */
 export class PinchTranslateAction extends CameraAction {
   readonly gesture = 'Pinch';
   readonly hand = 'left' as const;
 
   execute(ctx: CameraActionContext): void {
     const { delta, renderer } = ctx;
-    const id = renderer.getSelectedObjectId();
-    if (!id) return;
-    renderer.manipulateObject(id, 'translate', {
+    renderer.manipulateSelection('translate', {
       x: delta.x * TRANSLATION_SPEED,
       y: -delta.y * TRANSLATION_SPEED,
     });
   }
 }
 
-/** Left Fist + rotate (hand angle): rotate selected object around Y. */
+/** Left Fist + rotate (hand angle): rotate selected objects around Y, around their shared pivot. */
 export class FistRotateAction extends CameraAction {
   readonly gesture = 'Fist';
   readonly hand = 'left' as const;
 
   execute(ctx: CameraActionContext): void {
     const { hand, renderer, lastLeftAngle } = ctx;
-    const id = renderer.getSelectedObjectId();
-    if (!id || lastLeftAngle == null) return;
+    if (lastLeftAngle == null) return;
     const lm = hand.landmarks;
     if (!lm?.[8] || !lm?.[0]) return;
     const currentAngle = Math.atan2(lm[8].y - lm[0].y, lm[8].x - lm[0].x);
     let deltaAngle = currentAngle - lastLeftAngle;
     if (deltaAngle > Math.PI) deltaAngle -= 2 * Math.PI;
     if (deltaAngle < -Math.PI) deltaAngle += 2 * Math.PI;
-    renderer.manipulateObject(id, 'rotate', deltaAngle * 2);
+    renderer.manipulateSelection('rotate', deltaAngle * 2);
   }
 }
 
@@ -78,7 +76,45 @@ export class PalmReleaseAction extends CameraAction {
 
 // ---- Both hands ----
 
-/** Two-hand Pinch: scale selected object by change in distance between hands. */
+/** Left Open Palm (hovering an object) + right Fist: pin the selected objects, or unpin them if pinned. */
+export class PinToggleAction extends CameraAction {
+  readonly gesture = 'Open Palm+Fist';
+  readonly hand = 'both' as const;
+
+  execute(ctx: CameraActionContext): void {
+    const { renderer, started } = ctx;
+    const id = renderer.getSelectedObjectId();
+    if (!started || !id) return;
+    const pinned = renderer.getObjectPersistence(id)?.mode === 'pinned';
+    for (const target of renderer.getSelectedObjectIds()) {
+      renderer.setObjectPersistence(target, { mode: pinned ? 'ephemeral' : 'pinned' });
+    }
+  }
+}
+
+/** Left Open Palm (hovering an object) + right Pinch: add the object to the selection set, or take it out. */
+export class SelectionToggleAction extends CameraAction {
+  readonly gesture = 'Open Palm+Pinch';
+  readonly hand = 'both' as const;
+
+  execute(ctx: CameraActionContext): void {
+    const { renderer, started } = ctx;
+    const id = renderer.getSelectedObjectId();
+    if (started && id) renderer.toggleInSelection(id);
+  }
+}
+
+/** Both Open Palms: empty the selection set. */
+export class ClearSelectionAction extends CameraAction {
+  readonly gesture = 'Open Palm+Open Palm';
+  readonly hand = 'both' as const;
+
+  execute(ctx: CameraActionContext): void {
+    if (ctx.started) ctx.renderer.clearSelection();
+  }
+}
+
+/** Two-hand Pinch: scale selected objects (around their shared pivot) by change in distance between hands. */
 export class TwoHandPinchScaleAction extends CameraAction {
   readonly gesture = 'Pinch+Pinch';
   readonly hand = 'both' as const;
@@ -86,14 +122,97 @@ export class TwoHandPinchScaleAction extends CameraAction {
   execute(ctx: CameraActionContext): void {
     console.log('TwoHandPinchScaleAction');
     const { renderer, leftHand, rightHand, lastTwoHandDistance } = ctx;
-    const id = renderer.getSelectedObjectId();
-    if (!id || !leftHand || !rightHand || lastTwoHandDistance == null || lastTwoHandDistance <= 0) return;
+    if (!leftHand || !rightHand || lastTwoHandDistance == null || lastTwoHandDistance <= 0) return;
     const dist = Math.hypot(
       rightHand.center.x - leftHand.center.x,
       rightHand.center.y - leftHand.center.y
     );
     const scaleFactor = dist / lastTwoHandDistance;
     const clamped = Math.max(0.7, Math.min(1.4, scaleFactor));
-    renderer.manipulateObject(id, 'scale', clamped);
+    renderer.manipulateSelection('scale', clamped);
+  }
+}
+
+// ---- History ----
+
+/** Right-hand horizontal travel (normalized) that counts as a swipe. */
+const HISTORY_SWIPE_DISTANCE = 0.15;
+
+/**
+ * Right Pinch + swipe (left hand down): swipe left to undo, right to redo. One step per pinch; pinch again
+ * for the next. The app supplies the step, so it reports the result and any failure as for the Undo/Redo buttons.
+ */
+export class HistorySwipeAction extends CameraAction {
+  readonly gesture = 'Pinch';
+  readonly hand = 'right' as const;
+  private travel = 0;
+  private done = false;
+
+  constructor(private readonly step: (step: 'undo' | 'redo') => void) {
+    super();
+  }
+
+  execute(ctx: CameraActionContext): void {
+    const { delta, started } = ctx;
+    if (started) {
+      this.travel = 0;
+      this.done = false;
+      return;
+    }
+    if (this.done) return;
+    this.travel += delta.x;
+    if (Math.abs(this.travel) < HISTORY_SWIPE_DISTANCE) return;
+    this.done = true;
+    this.step(this.travel < 0 ? 'undo' : 'redo');
+  }
+}
+
+// ---- Capture ----
+
+/** How long both fists must be held before recording starts or stops (ms), so a passing fist does not toggle it. */
+const RECORDING_HOLD_MS = 1000;
+
+/** Both Fists, held: start or stop video recording (the app supplies what toggling means). */
+export class RecordingToggleAction extends CameraAction {
+  readonly gesture = 'Fist+Fist';
+  readonly hand = 'both' as const;
+  private heldSince = 0;
+  private done = false;
+
+  constructor(private readonly toggle: () => void) {
+    super();
+  }
+
+  execute(ctx: CameraActionContext): void {
+    const now = performance.now();
+    if (ctx.started) {
+      this.heldSince = now;
+      this.done = false;
+    }
+    if (this.done || now - this.heldSince < RECORDING_HOLD_MS) return;
+    this.done = true;
+    this.toggle();
+  }
+}
+
+// ---- World motion ----
+
+/** How strongly raising or lowering the right palm changes speed (factor e per this much normalized travel). */
+const SPEED_GESTURE_TRAVEL = 0.3;
+
+/**
+ * Left Fist + right Open Palm moved up/down: speed the world's motion (or free-flight) up or down. The left fist
+ * does not rotate the selection meanwhile: a matched two-hand gesture suppresses left-hand actions.
+ */
+export class MotionSpeedAction extends CameraAction {
+  readonly gesture = 'Fist+Open Palm';
+  readonly hand = 'both' as const;
+  private lastY = 0;
+
+  execute(ctx: CameraActionContext): void {
+    const { renderer, rightHand, started } = ctx;
+    if (!rightHand) return;
+    if (!started) renderer.motion.speed *= Math.exp((this.lastY - rightHand.center.y) / SPEED_GESTURE_TRAVEL);
+    this.lastY = rightHand.center.y;
   }
 }
@@ -0,0 +1,17 @@
+/** Offer a blob to the user as a file download. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled; revoking synchronously can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** File-name-safe timestamp, e.g. 2024-05-01T12-30-05. */
+export function fileTimestamp(date = new Date()): string {
+  return date.toISOString().slice(0, 19).replace(/:/g, '-');
+}
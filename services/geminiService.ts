@@ -1,71 +1,240 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { SceneGraph } from "../types";
-import { TYPE_TO_PLY } from "./sceneService";
-
-/** Convert ArrayBuffer to base64 string (browser-safe, no Node Buffer). */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = "";
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+import { GenerateContentParameters, GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { ObjectSummary, SceneEditOperation, SceneGraph } from "../types";
+import { assetRegistry } from "./assetRegistry";
+import { DAY_PERIOD_RANGE, FOG_DENSITY_RANGE, LIGHT_INTENSITY_RANGE } from "./atmosphere";
+import { JsonArrayStreamParser } from "./jsonStream";
+import { LifecycleStage, listLifecycleEffects } from "./lifecycleEffects";
+import type { ObjectStreamOptions, PromptDecomposition, SceneProvider } from "./SceneProvider";
+import { DREAM_PALETTE } from "./sceneValidation";
+import { RequestOptions, withRetry } from "./requestControl";
+import { textureCache, TextureRequestOptions } from "./textureCache";
+
+let ai: GoogleGenAI | null = null;
+
+/** Create the client on first use so that importing this module never needs an API key. */
+function getClient(): GoogleGenAI {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
   }
-  return btoa(binary);
+  return ai;
 }
 
-const DEBUG_DISABLE_GEMINI = false;
+const TEXT_MODEL = 'gemini-3-flash-preview';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+/** Per-attempt time limits; image generation is much slower than structured text. */
+const TEXT_TIMEOUT_MS = 30_000;
+const IMAGE_TIMEOUT_MS = 90_000;
 
-let ai: GoogleGenAI | null = null;
-if (!DEBUG_DISABLE_GEMINI) {
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-} else {
-  ai = null;
+/** generateContent with the caller's abort signal, a per-attempt timeout and retries on transient errors. */
+function generateContent(
+  params: GenerateContentParameters,
+  timeoutMs: number,
+  options?: RequestOptions
+): Promise<GenerateContentResponse> {
+  return withRetry(
+    (signal) => getClient().models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } }),
+    { signal: options?.signal, timeoutMs }
+  );
 }
 
-/** Low-cost classification: is the prompt a scene description (sky/terrain/atmosphere) or a list of objects? */
-export type PromptKind = "scene" | "object";
-
-export const classifyPrompt = async (prompt: string): Promise<PromptKind> => {
-  if (1==1) {
-    if (prompt.toLowerCase().includes("scene")) return "scene";
-    return "object";
-  }  else {
-      const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: {
-        parts: [{
-          text: `You are a classifier. Reply with exactly one word: "scene" or "object".
-  - "scene": the user describes an environment, atmosphere, sky, terrain, or overall mood (e.g. "sunset over mountains", "neon cyberpunk city sky").
-  - "object": the user describes a list of things, items, or objects to place in a scene (e.g. "a red tree and a blue sphere", "three crystals and a tower").
-
-  User input: "${prompt.slice(0, 500)}"
-
-  Reply only: scene OR object`
-        }]
-      },
-      config: { maxOutputTokens: 10 }
+/**
+ * Stream a JSON response and return its full text. Each element of the `arrayKey` array is passed to
+ * `onObject` as soon as it is complete. Failures are only retried until the first element has been passed on:
+ * a new attempt may answer differently, and the caller has already used the elements of the first one.
+ */
+function streamJson(
+  params: GenerateContentParameters,
+  arrayKey: string,
+  timeoutMs: number,
+  options?: ObjectStreamOptions
+): Promise<string> {
+  let emitted = 0;
+  return withRetry(async (signal) => {
+    const parser = new JsonArrayStreamParser(arrayKey);
+    const stream = await getClient().models.generateContentStream({
+      ...params,
+      config: { ...params.config, abortSignal: signal }
     });
-    let raw = (response as { text?: string }).text?.trim().toLowerCase() ?? "";
-    if (!raw && response.candidates?.[0]?.content?.parts?.[0]) {
-      const part = response.candidates[0].content.parts[0];
-      raw = ((part as { text?: string }).text ?? "").trim().toLowerCase();
+    let text = '';
+    for await (const chunk of stream) {
+      signal.throwIfAborted();
+      const piece = chunk.text ?? '';
+      text += piece;
+      for (const item of parser.push(piece)) {
+        emitted++;
+        options?.onObject?.(item);
+      }
     }
-    if (raw.includes("object")) return "object";
+    return text;
+  }, { signal: options?.signal, timeoutMs, canRetry: () => emitted === 0 });
+}
+
+/**
+ * "One of: ..." for the object type field, listing every registered asset with its aliases, description and
+ * preferred colors. Built per request, so assets added at runtime are offered right away.
+ */
+function objectTypeDescription(): string {
+  const types = assetRegistry.list().map(({ type, aliases, description, palette }) => {
+    const details = [
+      aliases.length ? `also: ${aliases.join(", ")}` : "",
+      description,
+      palette.length ? `colors: ${palette.join(" ")}` : "",
+    ].filter(Boolean);
+    return details.length ? `${type} (${details.join("; ")})` : type;
+  });
+  return "One of: " + types.join(", ");
+}
+
+/** Schema of the optional lifecycle effects of an object: one enum per stage, each effect described. */
+function effectsSchema(description: string) {
+  const stage = (name: LifecycleStage, label: string) => {
+    const effects = listLifecycleEffects(name);
+    return {
+      type: Type.STRING,
+      enum: effects.map((e) => e.name),
+      description: `${label}. ` + effects.map((e) => `${e.name}: ${e.description}`).join("; "),
+    };
+  };
+  return {
+    type: Type.OBJECT,
+    description,
+    properties: {
+      entrance: stage("entrance", "How the object appears"),
+      idle: stage("idle", "What it does while it stays"),
+      exit: stage("exit", "How it disappears"),
+    },
+  };
+}
+
+/** Schema of the scene atmosphere: fog, light and an optional day/night cycle. */
+const atmosphereSchema = () => ({
+  type: Type.OBJECT,
+  description: "Fog and light that match the mood of the environment",
+  properties: {
+    fogColor: { type: Type.STRING, description: "Hex color of the fog, usually the sky's color at the horizon" },
+    fogDensity: {
+      type: Type.NUMBER,
+      description: `Exponential fog density, ${FOG_DENSITY_RANGE[0]} to ${FOG_DENSITY_RANGE[1]}: 0.004 clear, 0.01 normal, 0.03 misty`
+    },
+    lightColor: { type: Type.STRING, description: "Hex color of the light (warm at sunset, cold by moonlight, ...)" },
+    lightIntensity: {
+      type: Type.NUMBER,
+      description: `Light level, ${LIGHT_INTENSITY_RANGE[0]} to ${LIGHT_INTENSITY_RANGE[1]}; 1 is daylight, 0.5 night`
+    },
+    dayCycle: {
+      type: Type.OBJECT,
+      nullable: true,
+      description: "Only if the request asks for time passing (day and night, a timelapse); otherwise null",
+      properties: {
+        period: { type: Type.NUMBER, description: `Seconds for a full day, ${DAY_PERIOD_RANGE[0]} to ${DAY_PERIOD_RANGE[1]}` },
+        start: { type: Type.NUMBER, description: "Time of day to start at: 0 midnight, 0.25 dawn, 0.5 noon, 0.75 dusk" }
+      },
+      required: ["period", "start"]
     }
-    return "scene";
+  },
+  required: ["fogColor", "fogDensity", "lightColor", "lightIntensity"]
+});
+
+/** Schema of object groups: compositions that move as one unit. */
+const groupsSchema = () => ({
+  type: Type.ARRAY,
+  description: "Objects that form one composition (e.g. a tree cluster) and should move together, by object id. Empty if none.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      memberIds: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ["name", "memberIds"]
+  }
+});
+
+/** Schema of one DreamObject in model responses. */
+const dreamObjectSchema = () => ({
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING },
+    type: { type: Type.STRING, description: objectTypeDescription() },
+    position: { 
+      type: Type.ARRAY, 
+      items: { type: Type.NUMBER },
+      description: "[x, y, z] - x: -50 to 50, y: 0 to 20, z: -100 to 0"
+    },
+    scale: { 
+      type: Type.ARRAY, 
+      items: { type: Type.NUMBER },
+      description: "[x, y, z] - x, y, z 0.1 to 10, based on the size of actual object"
+    },
+    color: { type: Type.STRING, description: "Hex color. One of: " + DREAM_PALETTE.join(", ") },
+    rotation: { 
+      type: Type.ARRAY, 
+      items: { type: Type.NUMBER },
+      description: "[x, y, z]"
+    },
+    name: { type: Type.STRING },
+    maxPoints: { type: Type.NUMBER, description: "Number of points in the point cloud (1000-5000)" },
+    effects: effectsSchema("Animation effects that match the mood of the scene")
+  },
+  required: ["id", "type", "position", "scale", "color", "rotation", "name", "maxPoints"]
+});
+
+export const decomposePrompt = async (
+  prompt: string,
+  liveObjects: ObjectSummary[],
+  options?: ObjectStreamOptions
+): Promise<PromptDecomposition> => {
+  const text = await streamJson({
+    model: TEXT_MODEL,
+    contents: `Split the user's request for a dreamy 3D scene into its parts.
+    - intent: "edit" if the user wants to change, move, resize, recolor or remove objects already in the scene; otherwise "compose".
+    - environment: the part describing sky, terrain, weather, time of day or overall atmosphere, rewritten as a short description. Empty string if the request does not describe the environment.
+    - objects: things to place in the scene (empty list if none).
+    - ambience: one short sentence describing the mood of the whole request.
+    - atmosphere: fog, light and (only if asked for) a day/night cycle matching the environment and mood.
+    - groups: objects that belong together as one composition (e.g. a cluster of trees), by id.
+    Objects currently in the scene: ${liveObjects.map((o) => o.name).join(", ") || "none"}
+    Request: "${prompt}"`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          intent: { type: Type.STRING, enum: ["compose", "edit"] },
+          environment: { type: Type.STRING },
+          objects: { type: Type.ARRAY, items: dreamObjectSchema() },
+          ambience: { type: Type.STRING },
+          atmosphere: atmosphereSchema(),
+          groups: groupsSchema()
+        },
+        required: ["intent", "environment", "objects", "ambience", "atmosphere"],
+        // Objects late, so they stream in after the short fields; groups refer to them.
+        propertyOrdering: ["intent", "environment", "ambience", "atmosphere", "objects", "groups"]
+      }
+    }
+  }, "objects", TEXT_TIMEOUT_MS, options);
+  console.log(text.trim());
+  const raw = JSON.parse(text.trim()) as {
+    intent?: string;
+    environment?: string;
+    objects?: unknown[];
+    ambience?: string;
+    atmosphere?: unknown;
+  };
+  if (raw.intent === "edit") return { kind: "edit" };
+  const environment = typeof raw.environment === "string" ? raw.environment.trim() : "";
+  const hasObjects = Array.isArray(raw.objects) && raw.objects.length > 0;
+  return {
+    kind: "compose",
+    // Nothing recognized at all: treat the whole prompt as an environment.
+    ambience: environment ? environment.slice(0, 300) : hasObjects ? null : prompt.slice(0, 300),
+    scene: hasObjects ? (raw as unknown as SceneGraph) : null,
+    atmosphere: raw.atmosphere,
+  };
 };
 
-export const parseScenePrompt = async (prompt: string): Promise<SceneGraph> => {
-  if (DEBUG_DISABLE_GEMINI) {
-    const response = '{"objects": [ \
-      {"id": "tree_01","type": "sakura-tree","position": [25, 0, 65],"scale": [2, 2, 2],"color": "#2D5A27","rotation": [0, 0, 0],"name": "Left Side Tree","maxPoints": 2500}, \
-      {"id": "tree_02","type": "sakura-tree","position": [25, 0, 45],"scale": [3, 3, 3],"color": "#2D5A27","rotation": [0, 0, 0],"name": "Right Side Tree","maxPoints": 2500}, \
-      {"id": "bell-tower","type": "bell-tower","position": [0, 0, -60],"scale": [2, 2, 2],"color": "#FF4500","rotation": [0, 0, 0],"name": "Floating Red Ball","maxPoints": 1500}, \
-      {"id": "grass","type": "grass","position": [0, 0, -60],"scale": [0.1, 0.1, 0.1],"color": "#FF4500","rotation": [0, 0, 0],"name": "Floating Red Ball","maxPoints": 1500}, \
-      {"id": "sphere_02","type": "church","position": [40, 0, 10],"scale": [6, 6, 6],"color": "#1E90FF","rotation": [0, 0, 0],"name": "Floating Blue Ball","maxPoints": 1500}]}';
-    return JSON.parse(response) as SceneGraph;
-  } else {
-    const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
+export const parseScenePrompt = async (prompt: string, options?: ObjectStreamOptions): Promise<SceneGraph> => {
+  const text = await streamJson({
+    model: TEXT_MODEL,
     contents: `Analyze the following scene description, extract the objects and their properties, and convert it into a scene graph. 
     Description: "${prompt}"`,
     config: {
@@ -74,113 +243,126 @@ export const parseScenePrompt = async (prompt: string): Promise<SceneGraph> => {
         type: Type.OBJECT,
         properties: {
           objects: {
+            type: Type.ARRAY,
+            items: dreamObjectSchema()
+          },
+          ambience: { type: Type.STRING, description: "One short sentence describing the mood of the scene" },
+          atmosphere: atmosphereSchema(),
+          groups: groupsSchema()
+        },
+        required: ["objects", "ambience"],
+        propertyOrdering: ["ambience", "atmosphere", "objects", "groups"]
+      }
+    }
+  }, "objects", TEXT_TIMEOUT_MS, options);
+  console.log(text.trim());
+  return JSON.parse(text.trim()) as SceneGraph;
+};
+
+export const parseEditPrompt = async (
+  prompt: string,
+  liveObjects: ObjectSummary[],
+  options?: RequestOptions
+): Promise<SceneEditOperation[]> => {
+  const response = await generateContent({
+    model: TEXT_MODEL,
+    contents: `You edit a 3D scene. Convert the user's request into a list of operations on the objects below.
+    Coordinates: x: -50 (left) to 50 (right), y: 0 (ground) to 20 (up), z: -130 (far away) to 20 (near the camera).
+    Positions, rotations (radians) and scales are absolute: compute the new values from the current ones.
+    Refer to existing objects by id. Use "add" only for new objects, with a new id.
+    Objects: ${JSON.stringify(liveObjects)}
+    Request: "${prompt}"`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          operations: {
             type: Type.ARRAY,
             items: {
               type: Type.OBJECT,
               properties: {
+                op: { type: Type.STRING, enum: ["add", "remove", "transform", "recolor"] },
                 id: { type: Type.STRING },
-                type: { type: Type.STRING, description: "One of: " + Object.keys(TYPE_TO_PLY).join(", ") },
-                position: { 
-                  type: Type.ARRAY, 
-                  items: { type: Type.NUMBER },
-                  description: "[x, y, z] - x: -50 to 50, y: 0 to 20, z: -100 to 0"
-                },
-                scale: { 
-                  type: Type.ARRAY, 
-                  items: { type: Type.NUMBER },
-                  description: "[x, y, z] - x, y, z 0.1 to 10, based on the size of actual object"
-                },
-                color: { type: Type.STRING, description: "Hex color. One of: #F7E5EC, #FFD9CC, #EEBEC6, #FDBA90, #D28A8C, #F9D4B2"},
-                rotation: { 
-                  type: Type.ARRAY, 
-                  items: { type: Type.NUMBER },
-                  description: "[x, y, z]"
-                },
-                name: { type: Type.STRING },
-                maxPoints: { type: Type.NUMBER, description: "Number of points in the point cloud (1000-5000)" }
+                position: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "[x, y, z] for transform or add" },
+                rotation: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "[x, y, z] for transform or add" },
+                scale: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "[x, y, z] 0.1 to 10, for transform or add" },
+                color: { type: Type.STRING, description: "Hex color, for recolor or add" },
+                type: { type: Type.STRING, description: "For add. " + objectTypeDescription() },
+                name: { type: Type.STRING, description: "For add" },
+                maxPoints: { type: Type.NUMBER, description: "For add. Number of points in the point cloud (1000-5000)" },
+                effects: effectsSchema("For add. Animation effects that match the mood of the scene")
               },
-              required: ["id", "type", "position", "scale", "color", "rotation", "name", "maxPoints"]
+              required: ["op", "id"]
             }
           }
         },
-        required: ["objects"]
+        required: ["operations"]
       }
     }
-  });
+  }, TEXT_TIMEOUT_MS, options);
   console.log(response.text.trim());
-  return JSON.parse(response.text.trim()) as SceneGraph;
-  }
+  return (JSON.parse(response.text.trim()) as { operations: SceneEditOperation[] }).operations;
 };
 
-export const generateSkyTexture = async (ambience: string): Promise<string> => {
-  if (!DEBUG_DISABLE_GEMINI) {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: `A realistic sky texture given the ambience: ${ambience}. High resolution, vibrant but soft colors.` }]
-      },
-      config: {
-        imageConfig: { aspectRatio: "16:9" }
-      }
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
+/** Return the first inline image of a response as a data URL, or '' if the model returned none. */
+function firstInlineImage(response: GenerateContentResponse): string {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:image/png;base64,${part.inlineData.data}`;
     }
-    return '';
-  } else {
-    
-    // TODO: This is temparay sample image
-    const imageURL = "https://i.imgur.com/Glzh0By.png";
-    // load the image from the URL
-    const image = await fetch(imageURL);
-    const imageData = await image.arrayBuffer();
-    const base64Image = arrayBufferToBase64(imageData);
-    
-    const partData = {
-      inlineData: { 
-        "mimeType": "image/png",
-        "data": base64Image
-      }
-    };
-    return `data:${partData.inlineData.mimeType};base64,${partData.inlineData.data}`;
   }
-};
-
-export const generateTerrainTexture = async (ambience: string): Promise<string> => {
-  if (!DEBUG_DISABLE_GEMINI) {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: `A seamless texture for world terrain given the ambience: ${ambience}. Subtle patterns, glowing veins, or soft textures.` }]
-      },
-      config: {
-        imageConfig: { aspectRatio: "1:1" }
-      }
-    });
+  return '';
+}
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    return '';
-  } else {
-    // TODO: This is temparay sample image
-    const imageURL = "https://i.imgur.com/kaUgiz6.jpeg";
-      // load the image from the URL
-    const image = await fetch(imageURL);
-    const imageData = await image.arrayBuffer();
-    const base64Image = arrayBufferToBase64(imageData);
-
-    const partData = {
-        inlineData: { 
-          "mimeType": "image/png",
-          "data": base64Image
+/** Generate an image, reusing a cached one for the same ambience/model/aspect ratio unless `options.regenerate`. */
+async function generateCachedImage(
+  ambience: string,
+  aspectRatio: string,
+  prompt: string,
+  options?: TextureRequestOptions
+): Promise<string> {
+  const { dataUrl } = await textureCache.getOrCreate(
+    { ambience, model: IMAGE_MODEL, aspectRatio },
+    async () => {
+      const response = await generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          imageConfig: { aspectRatio }
         }
-    };
-    return `data:${partData.inlineData.mimeType};base64,${partData.inlineData.data}`;
-  }
+      }, IMAGE_TIMEOUT_MS, options);
+      return firstInlineImage(response);
+    },
+    options
+  );
+  return dataUrl;
+}
+
+export const generateSkyTexture = (ambience: string, options?: TextureRequestOptions): Promise<string> =>
+  generateCachedImage(
+    ambience,
+    "16:9",
+    `A realistic sky texture given the ambience: ${ambience}. High resolution, vibrant but soft colors.`,
+    options
+  );
+
+export const generateTerrainTexture = (ambience: string, options?: TextureRequestOptions): Promise<string> =>
+  generateCachedImage(
+    ambience,
+    "1:1",
+    `A seamless texture for world terrain given the ambience: ${ambience}. Subtle patterns, glowing veins, or soft textures.`,
+    options
+  );
+
+/** Gemini-backed provider: text model for prompts, image model for sky/terrain. Needs GEMINI_API_KEY. */
+export const geminiSceneProvider: SceneProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  isAvailable: () => !!process.env.API_KEY,
+  decomposePrompt,
+  parseScenePrompt,
+  parseEditPrompt,
+  generateSkyTexture,
+  generateTerrainTexture,
 };
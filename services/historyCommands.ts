@@ -0,0 +1,137 @@
+import type { HistoryEntry } from './commandHistory';
+import type { DreamRenderer, MeshTransform } from './sceneService';
+import type { Atmosphere, LiveObjectState, ObjectGroup, SceneEditOperation, SceneEnvironment } from '../types';
+
+/**
+ * History entries for changes made outside the renderer's own gesture manipulations (which it records itself):
+ * objects added by a generation, prompt edits, and sky/terrain and atmosphere changes.
+ */
+
+/**
+ * Objects that were just committed. Undo starts their dissolve; redo loads them again as they were when undone
+ * (transform, color, lifetime) and puts back the groups they were in.
+ */
+export function addObjectsCommand(renderer: DreamRenderer, ids: string[], label: string): HistoryEntry {
+  let removed: LiveObjectState[] = [];
+  let groups: ObjectGroup[] = [];
+  return {
+    label,
+    undo() {
+      const wanted = new Set(ids);
+      removed = renderer.getObjectStates().filter((s) => wanted.has(s.object.id) && !s.lifetime.dissolving);
+      groups = renderer.getGroups().filter((g) => g.memberIds.some((id) => wanted.has(id)));
+      removed.forEach((s) => renderer.removeObject(s.object.id));
+    },
+    async redo() {
+      const prepared = await renderer.prepareObjects(removed.map((s) => s.object));
+      renderer.commitObjects(prepared);
+      removed.forEach((s) => renderer.restoreObjectLifetime(s.object.id, s.lifetime));
+      renderer.addGroups(groups);
+    },
+  };
+}
+
+/** The objects a prompt edit touches, as they were before it; see captureEdit. */
+export interface EditSnapshot {
+  /** Transforms and colors of the objects it moves or recolors. */
+  transforms: Map<string, MeshTransform>;
+  colors: Map<string, string>;
+  /** Objects it removes, with the groups they were in. */
+  removed: LiveObjectState[];
+  groups: ObjectGroup[];
+}
+
+/** Capture what `operations` will change; call before applySceneEdits and pass the result to editCommand. */
+export function captureEdit(renderer: DreamRenderer, operations: SceneEditOperation[]): EditSnapshot {
+  const changed = new Set(operations.flatMap((o) => (o.op === 'transform' || o.op === 'recolor' ? [o.id] : [])));
+  const removed = new Set(operations.flatMap((o) => (o.op === 'remove' ? [o.id] : [])));
+  const states = renderer.getObjectStates();
+  return {
+    transforms: renderer.captureTransforms([...changed]),
+    colors: new Map(states.filter((s) => changed.has(s.object.id)).map((s) => [s.object.id, s.object.color])),
+    removed: states.filter((s) => removed.has(s.object.id) && !s.lifetime.dissolving),
+    groups: renderer.getGroups().filter((g) => g.memberIds.some((id) => removed.has(id))),
+  };
+}
+
+/**
+ * A prompt edit, once applied: undo takes back the objects it added (`addedIds`), puts moved and recolored
+ * objects back as `before` had them and loads removed ones again; redo applies it all once more.
+ */
+export function editCommand(renderer: DreamRenderer, before: EditSnapshot, addedIds: string[], label: string): HistoryEntry {
+  const ids = [...before.transforms.keys()];
+  const after = {
+    transforms: renderer.captureTransforms(ids),
+    colors: new Map(renderer.getObjectStates().filter((s) => before.colors.has(s.object.id)).map((s) => [s.object.id, s.object.color])),
+  };
+  const additions = addedIds.length > 0 ? addObjectsCommand(renderer, addedIds, label) : null;
+  const restore = ({ transforms, colors }: Pick<EditSnapshot, 'transforms' | 'colors'>) => {
+    renderer.restoreTransforms(transforms);
+    colors.forEach((color, id) => renderer.setObjectColor(id, color));
+  };
+  return {
+    label,
+    async undo() {
+      await additions?.undo();
+      restore(before);
+      const prepared = await renderer.prepareObjects(before.removed.map((s) => s.object));
+      renderer.commitObjects(prepared);
+      before.removed.forEach((s) => renderer.restoreObjectLifetime(s.object.id, s.lifetime));
+      renderer.addGroups(before.groups);
+    },
+    async redo() {
+      before.removed.forEach((s) => renderer.removeObject(s.object.id));
+      restore(after);
+      await additions?.redo();
+    },
+  };
+}
+
+/** Sky/terrain (null: none yet) and atmosphere at one moment; see captureEnvironment. */
+export interface EnvironmentSnapshot {
+  environment: SceneEnvironment | null;
+  atmosphere: Atmosphere;
+}
+
+export function captureEnvironment(renderer: DreamRenderer): EnvironmentSnapshot {
+  return { environment: renderer.getEnvironment(), atmosphere: renderer.getAtmosphere() };
+}
+
+/**
+ * A sky/terrain and atmosphere change from `before` to `after`; a missing sky/terrain is undone to plain white.
+ * `onApply` is told which environment is now shown, e.g. to keep UI state in step.
+ */
+export function environmentCommand(
+  renderer: DreamRenderer,
+  before: EnvironmentSnapshot,
+  after: EnvironmentSnapshot,
+  onApply?: (snapshot: EnvironmentSnapshot) => void
+): HistoryEntry {
+  const apply = (snapshot: EnvironmentSnapshot) => {
+    const { skyColor, terrainColor, sky, terrain } = snapshot.environment
+      ?? { skyColor: '#FFFFFF', terrainColor: '#FFFFFF', sky: null, terrain: null };
+    if (snapshot.environment !== renderer.getEnvironment()) {
+      renderer.setSkyAndTerrain(skyColor, terrainColor, sky ?? undefined, terrain ?? undefined);
+    }
+    renderer.setAtmosphere(snapshot.atmosphere);
+    onApply?.(snapshot);
+  };
+  return {
+    label: 'Change sky & terrain',
+    undo: () => apply(before),
+    redo: () => apply(after),
+  };
+}
+
+/** Several entries undone and redone as one: undo runs them last to first. */
+export function combineCommands(label: string, entries: HistoryEntry[]): HistoryEntry {
+  return {
+    label,
+    async undo() {
+      for (const entry of [...entries].reverse()) await entry.undo();
+    },
+    async redo() {
+      for (const entry of entries) await entry.redo();
+    },
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Incremental parser for a JSON document that arrives in chunks (e.g. a streamed model response).
+ * It yields each object element of one top-level array property (`{"objects": [{...}, {...}]}`)
+ * as soon as that element is complete, without waiting for the rest of the document.
+ */
+export class JsonArrayStreamParser {
+  private buffer = '';
+  private scanned = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  /** Last complete string at depth 1, i.e. the most recent top-level key (or string value). */
+  private lastTopLevelString = '';
+  /** Last character outside strings that was not whitespace. */
+  private previousToken = '';
+  /** Depth inside the target array; -1 before it starts, -2 after it ended. */
+  private arrayDepth = -1;
+  private itemStart = -1;
+
+  constructor(private readonly key: string) {}
+
+  /** Feed the next chunk of text; returns the array elements completed by it, in order. */
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const items: unknown[] = [];
+    for (; this.scanned < this.buffer.length; this.scanned++) {
+      const i = this.scanned;
+      const ch = this.buffer[i];
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') {
+          this.inString = false;
+          this.previousToken = '"';
+          if (this.depth === 1) this.lastTopLevelString = this.parse(this.buffer.slice(this.stringStart, i + 1)) as string;
+        }
+        continue;
+      }
+      if (/\s/.test(ch)) continue;
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          this.stringStart = i;
+          break;
+        case '{':
+        case '[':
+          if (ch === '[' && this.arrayDepth === -1 && this.depth === 1
+            && this.previousToken === ':' && this.lastTopLevelString === this.key) {
+            this.arrayDepth = this.depth + 1;
+          } else if (this.arrayDepth > 0 && this.depth === this.arrayDepth && this.itemStart === -1) {
+            this.itemStart = i;
+          }
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.itemStart !== -1 && this.depth === this.arrayDepth) {
+            const item = this.parse(this.buffer.slice(this.itemStart, i + 1));
+            if (item !== undefined) items.push(item);
+            this.itemStart = -1;
+          } else if (this.arrayDepth > 0 && this.depth < this.arrayDepth) {
+            this.arrayDepth = -2;
+          }
+          break;
+      }
+      this.previousToken = ch;
+    }
+    return items;
+  }
+
+  private parse(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
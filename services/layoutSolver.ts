@@ -0,0 +1,142 @@
+/**
+ * Layout pass for generated objects: moves new objects so their bounding boxes do not overlap each other
+ * or objects already in the scene, and so they sit inside the corridor the drifting camera looks down.
+ * Works in the view corridor frame used by DreamObject.position (world drift removed).
+ */
+
+export type Vec3 = [number, number, number];
+
+/** An object to place (or an obstacle): its position plus bounds as offsets from that position. */
+export interface LayoutItem {
+  id: string;
+  name: string;
+  position: Vec3;
+  /** Axis-aligned bounds relative to `position`, after scale and rotation. */
+  min: Vec3;
+  max: Vec3;
+}
+
+/** The camera looking down the corridor (along -z, the drift direction). */
+export interface LayoutView {
+  /** Camera position in the view corridor frame. */
+  camera: Vec3;
+  /** Vertical field of view in degrees. */
+  fov: number;
+  aspect: number;
+  /** Minimum distance between the camera and an object's front face, so it stays in view while approaching. */
+  minLead: number;
+  /** Lowest z an object's back face may reach. */
+  farZ: number;
+}
+
+/** One object the solver moved, and why. */
+export interface LayoutAdjustment {
+  id: string;
+  name: string;
+  from: Vec3;
+  to: Vec3;
+  reasons: string[];
+}
+
+/** Minimum free space kept between two objects' bounds. */
+const LAYOUT_GAP = 0.5;
+/** Fraction of the visible half-width an object's center may use (keeps objects off the screen edge). */
+const CORRIDOR_MARGIN = 0.8;
+/** Candidate spots are searched on a grid of this spacing, up to SEARCH_RADIUS away in x and z. */
+const SEARCH_STEP = 2;
+const SEARCH_RADIUS = 60;
+
+/** Grid offsets (x, z) ordered by distance, nearest first; ties prefer moving away from the camera. */
+const SEARCH_OFFSETS: [number, number][] = (() => {
+  const offsets: [number, number][] = [];
+  const steps = Math.round(SEARCH_RADIUS / SEARCH_STEP);
+  for (let i = -steps; i <= steps; i++) {
+    for (let k = -steps; k <= steps; k++) {
+      offsets.push([i * SEARCH_STEP, k * SEARCH_STEP]);
+    }
+  }
+  return offsets.sort((a, b) => Math.hypot(a[0], a[1]) - Math.hypot(b[0], b[1]) || a[1] - b[1] || Math.abs(a[0]) - Math.abs(b[0]));
+})();
+
+function overlaps(a: LayoutItem, aPos: Vec3, b: LayoutItem): boolean {
+  for (let axis = 0; axis < 3; axis++) {
+    if (aPos[axis] + a.max[axis] + LAYOUT_GAP <= b.position[axis] + b.min[axis]) return false;
+    if (b.position[axis] + b.max[axis] + LAYOUT_GAP <= aPos[axis] + a.min[axis]) return false;
+  }
+  return true;
+}
+
+function inCorridor(item: LayoutItem, pos: Vec3, view: LayoutView): boolean {
+  const front = pos[2] + item.max[2];
+  const back = pos[2] + item.min[2];
+  if (view.camera[2] - front < view.minLead || back < view.farZ) return false;
+  // Visible half-extents at the depth of the object's center.
+  const distance = view.camera[2] - (front + back) / 2;
+  const halfHeight = distance * Math.tan((view.fov * Math.PI) / 360);
+  const halfWidth = halfHeight * view.aspect;
+  const centerX = pos[0] + (item.min[0] + item.max[0]) / 2;
+  const centerY = pos[1] + (item.min[1] + item.max[1]) / 2;
+  return Math.abs(centerX - view.camera[0]) <= halfWidth * CORRIDOR_MARGIN
+    && Math.abs(centerY - view.camera[1]) <= halfHeight;
+}
+
+/** Keep z between the far bound and the drift lead; an object deeper than the corridor keeps the lead. */
+function clampDepth(item: LayoutItem, pos: Vec3, view: LayoutView): Vec3 {
+  const maxZ = view.camera[2] - view.minLead - item.max[2];
+  const minZ = view.farZ - item.min[2];
+  return [pos[0], pos[1], Math.min(maxZ, Math.max(minZ, pos[2]))];
+}
+
+function samePosition(a: Vec3, b: Vec3): boolean {
+  return a.every((v, i) => Math.abs(v - b[i]) < 1e-6);
+}
+
+/**
+ * Place `items` in order, each avoiding `obstacles` and the items placed before it.
+ * An item that is in the corridor and overlaps nothing keeps its position; otherwise it moves to the
+ * free grid spot in the x/z plane nearest to its depth-clamped position (height is never changed).
+ * Returns the final positions (same order as `items`) and one adjustment per moved item.
+ */
+export function solveLayout(
+  items: LayoutItem[],
+  obstacles: LayoutItem[],
+  view: LayoutView
+): { positions: Vec3[]; adjustments: LayoutAdjustment[] } {
+  const placed = [...obstacles];
+  const positions: Vec3[] = [];
+  const adjustments: LayoutAdjustment[] = [];
+
+  for (const item of items) {
+    const start = item.position;
+    const reasons: string[] = [];
+    if (!inCorridor(item, start, view)) reasons.push('outside the view corridor');
+    const hits = placed.filter((other) => overlaps(item, start, other)).map((other) => other.name);
+    if (hits.length > 0) reasons.push(`overlapped ${hits.join(', ')}`);
+
+    let position = start;
+    if (reasons.length > 0) {
+      const origin = clampDepth(item, start, view);
+      const free = SEARCH_OFFSETS
+        .map(([dx, dz]): Vec3 => [origin[0] + dx, origin[1], origin[2] + dz])
+        .find((pos) => inCorridor(item, pos, view) && !placed.some((other) => overlaps(item, pos, other)));
+      if (free) {
+        position = free;
+      } else {
+        position = origin;
+        reasons.push('no free spot nearby');
+      }
+      if (!samePosition(position, start)) {
+        adjustments.push({ id: item.id, name: item.name, from: start, to: position, reasons });
+      }
+    }
+    positions.push(position);
+    placed.push({ ...item, position });
+  }
+  return { positions, adjustments };
+}
+
+/** One-line description for logs and the UI. */
+export function describeAdjustment({ name, from, to, reasons }: LayoutAdjustment): string {
+  const fmt = (v: Vec3) => `(${v.map((n) => Math.round(n * 10) / 10).join(', ')})`;
+  return `Moved "${name}" from ${fmt(from)} to ${fmt(to)}: ${reasons.join('; ')}`;
+}
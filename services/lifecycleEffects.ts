@@ -0,0 +1,201 @@
+/**
+ * Lifecycle effects for rendered objects: how an object enters the scene, what it does while alive and how it
+ * leaves. Each effect is a GLSL snippet run by LifecyclePointsMaterial, plus a CPU mirror of which points it
+ * shows (for exporters). New effects can be registered at runtime and are offered to the model right away.
+ */
+
+export type LifecycleStage = 'entrance' | 'idle' | 'exit';
+
+export const LIFECYCLE_STAGES: LifecycleStage[] = ['entrance', 'idle', 'exit'];
+
+/** What an effect knows about one point; `box` is its position within the geometry's bounding box (0–1 per axis). */
+export interface LifecyclePoint {
+  /** Index / count: 0 for the first point, just under 1 for the last. */
+  order: number;
+  /** Random 0–1, fixed per point. */
+  seed: number;
+  box: { x: number; y: number; z: number };
+}
+
+export interface LifecycleEffect {
+  stage: LifecycleStage;
+  /** Lower-case, dash-separated, unique within its stage. */
+  name: string;
+  /** Short description offered to the model. */
+  description: string;
+  /** Seconds an entrance or exit takes; ignored for idle effects, which run for the rest of the object's life. */
+  duration: number;
+  /**
+   * GLSL body of `void effect(inout vec3 p, inout bool visible, float t, float order, float seed, vec3 box)`.
+   * `p` starts at the point's position (geometry units) and `visible` at true. `t` is progress (0–1) for
+   * entrances and exits, and seconds since the entrance finished for idle effects. Uniforms `uBoxMin` and
+   * `uBoxSize` give the geometry's bounding box, and `hash(float)` returns a pseudo-random 0–1.
+   */
+  glsl: string;
+  /** Whether the effect shows a point at `t`, exactly as `glsl` decides `visible`. */
+  shows(point: LifecyclePoint, t: number): boolean;
+}
+
+export type ObjectEffectNames = Record<LifecycleStage, string>;
+
+/** Effects used when an object names none (the original materialize → diffuse → dissolve sequence). */
+export const DEFAULT_EFFECTS: ObjectEffectNames = { entrance: 'materialize', idle: 'diffuse', exit: 'dissolve' };
+
+/** Fraction (0–1) of points, the last in order, that the diffuse effect lets drift away. */
+const DIFFUSE_FRACTION = 0.1;
+/** Seconds the diffusing points drift before they disappear. */
+const DIFFUSE_DURATION = 3;
+/** Drift of the original random walk: 0.1 units per frame at 60 fps, pulled back by 0.8% per frame. */
+const DIFFUSE_STRENGTH = 0.1;
+const DIFFUSE_DAMP = 0.008;
+const DIFFUSE_SPREAD = DIFFUSE_STRENGTH / Math.sqrt(2 * DIFFUSE_DAMP);
+const DIFFUSE_RISE = DIFFUSE_STRENGTH / DIFFUSE_DAMP / 2;
+const DIFFUSE_SETTLE = 1 / (60 * DIFFUSE_DAMP);
+
+/** Spiral and rain start each point after a random delay of up to this fraction of the effect. */
+const SPIRAL_STAGGER = 0.4;
+const RAIN_STAGGER = 0.7;
+
+/** GLSL float literal. */
+const f = (value: number) => value.toFixed(5);
+
+const BUILT_IN_EFFECTS: LifecycleEffect[] = [
+  {
+    stage: 'entrance',
+    name: 'materialize',
+    description: 'points appear one by one all over the object; calm, neutral',
+    duration: 10,
+    glsl: 'visible = order < t;',
+    shows: ({ order }, t) => order < t,
+  },
+  {
+    stage: 'entrance',
+    name: 'scan-line',
+    description: 'a horizontal line sweeps up from the base and reveals the object; technical, eerie, precise',
+    duration: 6,
+    glsl: 'visible = box.y <= t;',
+    shows: ({ box }, t) => box.y <= t,
+  },
+  {
+    stage: 'entrance',
+    name: 'spiral',
+    description: 'points swirl in from a wide spiral and assemble the object; magical, whimsical',
+    duration: 8,
+    glsl: `
+      float u = clamp((t - seed * ${f(SPIRAL_STAGGER)}) / ${f(1 - SPIRAL_STAGGER)}, 0.0, 1.0);
+      visible = u > 0.0;
+      float rest = pow(1.0 - u, 3.0);
+      vec2 center = uBoxMin.xz + uBoxSize.xz * 0.5;
+      vec2 offset = (p.xz - center) * (1.0 + rest * 1.5);
+      float angle = rest * 12.566;
+      p.xz = center + mat2(cos(angle), -sin(angle), sin(angle), cos(angle)) * offset;
+      p.y += rest * uBoxSize.y * 0.5;`,
+    shows: ({ seed }, t) => t - seed * SPIRAL_STAGGER > 0,
+  },
+  {
+    stage: 'entrance',
+    name: 'rain',
+    description: 'points fall from the sky and pile up into the object; soft, melancholic, rainy',
+    duration: 7,
+    glsl: `
+      float u = clamp((t - seed * ${f(RAIN_STAGGER)}) / ${f(1 - RAIN_STAGGER)}, 0.0, 1.0);
+      visible = u > 0.0;
+      p.y += uBoxSize.y * 1.5 * (1.0 - u * u);`,
+    shows: ({ seed }, t) => t - seed * RAIN_STAGGER > 0,
+  },
+  {
+    stage: 'idle',
+    name: 'diffuse',
+    description: 'a few points drift up and away like dust, then vanish; dreamy',
+    duration: 0,
+    glsl: `
+      if (order >= ${f(1 - DIFFUSE_FRACTION)}) {
+        float settle = 1.0 - exp(-t / ${f(DIFFUSE_SETTLE)});
+        vec3 dir = vec3(hash(seed * 17.0) * 2.0 - 1.0, hash(seed * 31.0) * 2.0, hash(seed * 47.0) * 2.0 - 1.0);
+        p += dir * vec3(${f(DIFFUSE_SPREAD)}, ${f(DIFFUSE_RISE)}, ${f(DIFFUSE_SPREAD)}) * settle;
+        visible = t < ${f(DIFFUSE_DURATION)};
+      }`,
+    shows: ({ order }, t) => order < 1 - DIFFUSE_FRACTION || t < DIFFUSE_DURATION,
+  },
+  {
+    stage: 'idle',
+    name: 'shimmer',
+    description: 'every point gently bobs in place; alive, underwater, festive',
+    duration: 0,
+    glsl: 'p.y += sin(t * 1.5 + seed * 6.2832) * uBoxSize.y * 0.01;',
+    shows: () => true,
+  },
+  {
+    stage: 'idle',
+    name: 'still',
+    description: 'the object stays perfectly still; solemn, frozen',
+    duration: 0,
+    glsl: '',
+    shows: () => true,
+  },
+  {
+    stage: 'exit',
+    name: 'dissolve',
+    description: 'points fade out one by one, last ones first; calm, neutral',
+    duration: 5.5,
+    glsl: 'visible = order < 1.0 - t;',
+    shows: ({ order }, t) => order < 1 - t,
+  },
+  {
+    stage: 'exit',
+    name: 'explode',
+    description: 'the object bursts outward and scatters; energetic, violent, joyful',
+    duration: 3,
+    glsl: `
+      vec3 center = uBoxMin + uBoxSize * 0.5;
+      vec3 jitter = vec3(hash(seed * 13.0), hash(seed * 29.0), hash(seed * 53.0)) - 0.5;
+      vec3 dir = normalize(p - center + jitter * length(uBoxSize) * 0.2);
+      p += dir * length(uBoxSize) * 1.5 * (1.0 - (1.0 - t) * (1.0 - t));
+      visible = seed > t;`,
+    shows: ({ seed }, t) => seed > t,
+  },
+  {
+    stage: 'exit',
+    name: 'rain',
+    description: 'points drop to the ground one after another and vanish; sad, heavy',
+    duration: 5,
+    glsl: `
+      float u = clamp((t - seed * ${f(RAIN_STAGGER)}) / ${f(1 - RAIN_STAGGER)}, 0.0, 1.0);
+      p.y = mix(p.y, uBoxMin.y, u * u);
+      visible = u < 1.0;`,
+    shows: ({ seed }, t) => (t - seed * RAIN_STAGGER) / (1 - RAIN_STAGGER) < 1,
+  },
+];
+
+const effects: Record<LifecycleStage, Map<string, LifecycleEffect>> = {
+  entrance: new Map(),
+  idle: new Map(),
+  exit: new Map(),
+};
+
+/** Add an effect, replacing any of the same stage and name. */
+export function registerLifecycleEffect(effect: LifecycleEffect): void {
+  effects[effect.stage].set(effect.name, effect);
+}
+
+BUILT_IN_EFFECTS.forEach(registerLifecycleEffect);
+
+/** All effects of a stage, in registration order. */
+export function listLifecycleEffects(stage: LifecycleStage): LifecycleEffect[] {
+  return [...effects[stage].values()];
+}
+
+/** The named effect of a stage, or the stage's default if the name is missing or unknown. */
+export function getLifecycleEffect(stage: LifecycleStage, name?: string): LifecycleEffect {
+  return (name && effects[stage].get(name)) || effects[stage].get(DEFAULT_EFFECTS[stage])!;
+}
+
+/** Whether `name` is a registered effect of `stage`. */
+export function hasLifecycleEffect(stage: LifecycleStage, name: string): boolean {
+  return effects[stage].has(name);
+}
+
+/** Longest registered entrance, in seconds. */
+export function longestEntranceDuration(): number {
+  return Math.max(...listLifecycleEffects('entrance').map((e) => e.duration));
+}
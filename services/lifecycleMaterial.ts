@@ -0,0 +1,255 @@
+import * as THREE from 'three';
+import { getLifecycleEffect, LifecycleEffect, LifecyclePoint, ObjectEffectNames } from './lifecycleEffects';
+import { createRandom } from './proceduralTextures';
+
+/**
+ * Point material that runs an object's whole lifecycle on the GPU: an entrance effect, then an idle effect for
+ * the rest of its life, and an exit effect once it is told to leave (see lifecycleEffects). Everything is a
+ * function of time uniforms and a per-vertex `lifecycle` attribute (order, seed), so nothing is rewritten on
+ * the CPU per frame.
+ */
+
+export interface LifecyclePointsParameters {
+  color: THREE.ColorRepresentation;
+  /** Point size in world units (attenuated with distance, like PointsMaterial). */
+  size: number;
+  opacity: number;
+  map: THREE.Texture;
+  vertexColors: boolean;
+  /** Effect names per stage; missing or unknown names use the stage's default. */
+  effects?: Partial<ObjectEffectNames>;
+  /** Bounding box of the geometry, for effects that work by height or around the center. */
+  bounds: THREE.Box3;
+  /** Uniform shared by all materials: renderer clock time in seconds. */
+  time: THREE.IUniform<number>;
+  /** Uniform shared by all materials: half the drawing-buffer height in pixels (PointsMaterial's `scale`). */
+  scale: THREE.IUniform<number>;
+  /** Uniform shared by all materials: multiplier of point colors (the atmosphere's light level). */
+  brightness: THREE.IUniform<number>;
+}
+
+function effectFunction(name: string, effect: LifecycleEffect): string {
+  return `void ${name}(inout vec3 p, inout bool visible, float t, float order, float seed, vec3 box) {\n${effect.glsl}\n}\n`;
+}
+
+function vertexShader(entrance: LifecycleEffect, idle: LifecycleEffect, exit: LifecycleEffect): string {
+  return /* glsl */ `
+uniform float size;
+uniform float scale;
+uniform float uTime;
+uniform float uRevealAt;
+uniform float uExitAt;
+uniform vec3 uBoxMin;
+uniform vec3 uBoxSize;
+attribute vec2 lifecycle;
+#ifdef USE_COLOR
+varying vec3 vColor;
+#endif
+#include <fog_pars_vertex>
+
+float hash(float n) {
+  return fract(sin(n) * 43758.5453123);
+}
+
+${effectFunction('entranceEffect', entrance)}
+${effectFunction('idleEffect', idle)}
+${effectFunction('exitEffect', exit)}
+
+void main() {
+  float order = lifecycle.x;
+  float seed = lifecycle.y;
+  vec3 box = (position - uBoxMin) / max(uBoxSize, vec3(1e-6));
+  vec3 transformed = position;
+  bool visible = true;
+  float age = uTime - uRevealAt;
+  if (age < ${entrance.duration.toFixed(5)}) {
+    entranceEffect(transformed, visible, max(age, 0.0) / ${entrance.duration.toFixed(5)}, order, seed, box);
+  } else {
+    idleEffect(transformed, visible, age - ${entrance.duration.toFixed(5)}, order, seed, box);
+  }
+  if (uExitAt >= 0.0) {
+    bool staying = true;
+    exitEffect(transformed, staying, clamp((uTime - uExitAt) / ${exit.duration.toFixed(5)}, 0.0, 1.0), order, seed, box);
+    visible = visible && staying;
+  }
+  if (!visible) {
+    // Outside the clip volume: the point is not rasterized.
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+    gl_PointSize = 0.0;
+    return;
+  }
+
+#ifdef USE_COLOR
+  vColor = color;
+#endif
+  vec4 mvPosition = modelViewMatrix * vec4(transformed, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  gl_PointSize = size * (scale / -mvPosition.z);
+  #include <fog_vertex>
+}
+`;
+}
+
+const fragmentShader = /* glsl */ `
+uniform vec3 diffuse;
+uniform float opacity;
+uniform sampler2D map;
+uniform float brightness;
+#ifdef USE_COLOR
+varying vec3 vColor;
+#endif
+#include <fog_pars_fragment>
+
+void main() {
+  vec4 diffuseColor = vec4(diffuse * brightness, opacity);
+#ifdef USE_COLOR
+  diffuseColor.rgb *= vColor;
+#endif
+  diffuseColor *= texture2D(map, vec2(gl_PointCoord.x, 1.0 - gl_PointCoord.y));
+#ifdef USE_FOG
+  #ifdef FOG_EXP2
+  float fogFactor = 1.0 - exp(-fogDensity * fogDensity * vFogDepth * vFogDepth);
+  #else
+  float fogFactor = smoothstep(fogNear, fogFar, vFogDepth);
+  #endif
+  // Points are blended additively: they fade out into the fog rather than tinting toward its color.
+  diffuseColor.a *= 1.0 - fogFactor;
+#endif
+  if (diffuseColor.a < 0.01) discard;
+  gl_FragColor = diffuseColor;
+  #include <encodings_fragment>
+}
+`;
+
+/**
+ * Give a point geometry its `lifecycle` attribute: x is the point's order (index / count) and y a random
+ * per-point seed from `seed`; effects use them to stagger and vary the points.
+ */
+export function addLifecycleAttribute(geometry: THREE.BufferGeometry, seed: number): void {
+  const count = geometry.getAttribute('position').count;
+  const random = createRandom(seed);
+  const data = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    data[i * 2] = i / count;
+    data[i * 2 + 1] = random();
+  }
+  geometry.setAttribute('lifecycle', new THREE.BufferAttribute(data, 2));
+}
+
+export class LifecyclePointsMaterial extends THREE.ShaderMaterial {
+  readonly entrance: LifecycleEffect;
+  readonly idle: LifecycleEffect;
+  readonly exit: LifecycleEffect;
+
+  constructor({ color, size, opacity, map, vertexColors, effects, bounds, time, scale, brightness }: LifecyclePointsParameters) {
+    const entrance = getLifecycleEffect('entrance', effects?.entrance);
+    const idle = getLifecycleEffect('idle', effects?.idle);
+    const exit = getLifecycleEffect('exit', effects?.exit);
+    super({
+      uniforms: {
+        ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
+        diffuse: { value: new THREE.Color(color) },
+        opacity: { value: opacity },
+        size: { value: size },
+        map: { value: map },
+        scale,
+        brightness,
+        uTime: time,
+        uRevealAt: { value: time.value },
+        uExitAt: { value: -1 },
+        uBoxMin: { value: bounds.min.clone() },
+        uBoxSize: { value: bounds.getSize(new THREE.Vector3()) },
+      },
+      vertexShader: vertexShader(entrance, idle, exit),
+      fragmentShader,
+      vertexColors,
+      fog: true,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+    });
+    this.entrance = entrance;
+    this.idle = idle;
+    this.exit = exit;
+  }
+
+  /** Base color; vertex colors, if any, are tinted by it. */
+  get color(): THREE.Color {
+    return this.uniforms.diffuse.value;
+  }
+
+  get size(): number {
+    return this.uniforms.size.value;
+  }
+
+  set size(value: number) {
+    this.uniforms.size.value = value;
+  }
+
+  /** When the entrance effect (re)started. */
+  get revealedAt(): number {
+    return this.uniforms.uRevealAt.value;
+  }
+
+  /** Start the entrance effect at `time`; the idle effect starts over after it. */
+  reveal(time: number): void {
+    this.uniforms.uRevealAt.value = time;
+  }
+
+  /** Start the exit effect at `time`. */
+  leave(time: number): void {
+    this.uniforms.uExitAt.value = time;
+  }
+
+  /** Cancel an exit in progress; points it already hid come back. */
+  stay(): void {
+    this.uniforms.uExitAt.value = -1;
+  }
+
+  /** True once the exit effect has started and run its full duration. */
+  hasLeft(time: number): boolean {
+    const at = this.uniforms.uExitAt.value;
+    return at >= 0 && time - at >= this.exit.duration;
+  }
+
+  /** Whether `point` is drawn at `time`; the same decision the vertex shader makes. */
+  shows(point: LifecyclePoint, time: number): boolean {
+    const age = time - this.revealedAt;
+    const entranceDuration = this.entrance.duration;
+    const visible = age < entranceDuration
+      ? this.entrance.shows(point, Math.max(age, 0) / entranceDuration)
+      : this.idle.shows(point, age - entranceDuration);
+    const exitAt = this.uniforms.uExitAt.value;
+    if (!visible || exitAt < 0) return visible;
+    return this.exit.shows(point, Math.max(0, Math.min(1, (time - exitAt) / this.exit.duration)));
+  }
+
+  /** Whether point `index` of `geometry` (drawn with this material) is visible at `time`. */
+  showsIndex(geometry: THREE.BufferGeometry, index: number, time: number): boolean {
+    const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const lifecycle = geometry.getAttribute('lifecycle') as THREE.BufferAttribute;
+    const min: THREE.Vector3 = this.uniforms.uBoxMin.value;
+    const size: THREE.Vector3 = this.uniforms.uBoxSize.value;
+    return this.shows(
+      {
+        order: lifecycle.getX(index),
+        seed: lifecycle.getY(index),
+        box: {
+          x: (position.getX(index) - min.x) / Math.max(size.x, 1e-6),
+          y: (position.getY(index) - min.y) / Math.max(size.y, 1e-6),
+          z: (position.getZ(index) - min.z) / Math.max(size.z, 1e-6),
+        },
+      },
+      time
+    );
+  }
+
+  /** Indices of the points of `geometry` (drawn with this material) that are visible at `time`. */
+  visibleIndices(geometry: THREE.BufferGeometry, time: number): number[] {
+    const indices: number[] = [];
+    const count = geometry.getAttribute('position').count;
+    for (let i = 0; i < count; i++) {
+      if (this.showsIndex(geometry, i, time)) indices.push(i);
+    }
+    return indices;
+  }
+}
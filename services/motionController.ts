@@ -0,0 +1,92 @@
+import type { MotionMode } from '../types';
+
+/**
+ * How the dream moves: the world drifting toward the camera (the default), paused, drifting backward, or
+ * standing still while the camera flies forward. Velocities are speed multiples that ease in and out over
+ * TRANSITION_SECONDS whenever the mode or speed changes; the renderer turns them into per-frame motion.
+ */
+
+export const MOTION_MODES: MotionMode[] = ['drift', 'paused', 'reverse', 'free-fly'];
+/** Speed multiplier range (1 is the original drift speed). */
+export const MOTION_SPEED_MIN = 0.25;
+export const MOTION_SPEED_MAX = 4;
+const TRANSITION_SECONDS = 1.2;
+
+/** A velocity easing from one value to another along a smoothstep curve. */
+class EasedValue {
+  private from = 0;
+  private to = 0;
+  private elapsed = 0;
+  value = 0;
+
+  constructor(initial: number) {
+    this.from = this.to = this.value = initial;
+  }
+
+  /** Head for `target`, starting from wherever the value is now. */
+  set target(target: number) {
+    if (target === this.to) return;
+    this.from = this.value;
+    this.to = target;
+    this.elapsed = 0;
+  }
+
+  update(delta: number): number {
+    this.elapsed = Math.min(TRANSITION_SECONDS, this.elapsed + delta);
+    const t = this.elapsed / TRANSITION_SECONDS;
+    this.value = this.from + (this.to - this.from) * t * t * (3 - 2 * t);
+    return this.value;
+  }
+}
+
+export class MotionController {
+  private _mode: MotionMode = 'drift';
+  private _speed = 1;
+  /** Speed multiple of the world's drift toward the camera (negative in reverse). */
+  private world = new EasedValue(1);
+  /** Speed multiple of the camera's forward flight. */
+  private fly = new EasedValue(0);
+  private listeners = new Set<() => void>();
+
+  get mode(): MotionMode {
+    return this._mode;
+  }
+
+  set mode(mode: MotionMode) {
+    this._mode = mode;
+    this.retarget();
+  }
+
+  /** Speed multiplier, clamped to MOTION_SPEED_MIN–MOTION_SPEED_MAX; applies to every moving mode. */
+  get speed(): number {
+    return this._speed;
+  }
+
+  set speed(speed: number) {
+    this._speed = Math.max(MOTION_SPEED_MIN, Math.min(MOTION_SPEED_MAX, speed));
+    this.retarget();
+  }
+
+  /** Current (eased) world drift toward the camera, as a multiple of the original speed. */
+  get worldVelocity(): number {
+    return this.world.value;
+  }
+
+  /** Call `listener` whenever the mode or speed changes; returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Advance the easing by `delta` seconds; returns the world and camera-flight velocities for this frame. */
+  update(delta: number): { world: number; fly: number } {
+    return { world: this.world.update(delta), fly: this.fly.update(delta) };
+  }
+
+  private retarget(): void {
+    const direction = { drift: 1, paused: 0, reverse: -1, 'free-fly': 0 }[this._mode];
+    this.world.target = direction * this._speed;
+    this.fly.target = this._mode === 'free-fly' ? this._speed : 0;
+    this.listeners.forEach((listener) => listener());
+  }
+}
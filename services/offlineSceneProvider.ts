@@ -0,0 +1,378 @@
+import { DreamObject, ObjectGroup, ObjectSummary, ProceduralTextureSpec, SceneEditOperation, SceneGraph } from '../types';
+import { assetRegistry } from './assetRegistry';
+import { atmosphereFromAmbience } from './atmosphere';
+import type { RequestOptions } from './requestControl';
+import type { ObjectStreamOptions, PromptDecomposition, SceneProvider } from './SceneProvider';
+import { DREAM_PALETTE, PRIMITIVE_ALIASES } from './sceneValidation';
+import { looksLikeEdit, normalizeWords, objectWords } from './sceneEdits';
+import {
+  createRandom,
+  hashString,
+  proceduralSpecFromAmbience,
+} from './proceduralTextures';
+
+/**
+ * Fully offline provider: prompts are parsed with a small keyword/quantity grammar
+ * ("three pink sakura trees and a big bus") and sky/terrain are drawn procedurally (see proceduralTextures).
+ * Results are deterministic per prompt, so demos and tests need no API key or network.
+ */
+
+const QUANTITY_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, single: 1, two: 2, pair: 2, couple: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10, few: 3, some: 3, several: 4, many: 6,
+};
+
+const COLOR_WORDS: Record<string, string> = {
+  red: '#E2584D', orange: '#FDBA90', yellow: '#F9E79F', gold: '#F4D03F', golden: '#F4D03F',
+  green: '#8FCB8B', blue: '#7FB2D9', cyan: '#7FE0E0', teal: '#5FB3A8', purple: '#B49BD9',
+  violet: '#B49BD9', pink: '#EEBEC6', white: '#F7F5F2', silver: '#D5D8DC', black: '#3A3A48',
+  brown: '#B08968', peach: '#FFD9CC', rose: '#D28A8C',
+};
+
+/** Size adjectives → multiplier on the default scale. */
+const SIZE_WORDS: Record<string, number> = {
+  tiny: 0.4, small: 0.7, little: 0.7, medium: 1, big: 1.6, large: 1.6, tall: 1.6,
+  huge: 2.5, giant: 3, enormous: 3, massive: 3,
+};
+
+/** Words that describe an environment rather than things to place. */
+const SCENE_WORDS = new Set([
+  'scene', 'sky', 'skies', 'sunset', 'sunrise', 'dawn', 'dusk', 'twilight', 'night', 'midnight', 'evening',
+  'morning', 'terrain', 'ground', 'landscape', 'world', 'atmosphere', 'ambience', 'mood', 'weather',
+  'desert', 'ocean', 'sea', 'underwater', 'mountain', 'mountains', 'valley', 'meadow', 'field', 'forest',
+  'fog', 'foggy', 'mist', 'misty', 'rain', 'rainy', 'snow', 'snowy', 'storm', 'aurora', 'galaxy', 'space',
+  'cyberpunk', 'neon', 'winter', 'spring', 'autumn', 'summer',
+]);
+
+/** Words that end a "[quantity] [size] [color] noun" clause. */
+const CLAUSE_BREAKS = new Set(['and', 'with', 'then', 'plus', 'near', 'beside', 'behind', 'under', 'over']);
+
+/** Longest noun phrase (in words) looked up against the type tables, e.g. 'school bus'. */
+const MAX_NOUN_WORDS = 3;
+const MAX_QUANTITY = 10;
+/** Quantity used for a bare plural ("trees"). */
+const PLURAL_QUANTITY = 3;
+/** Default scale: point clouds are normalized to 100 units per scale unit; primitives are in world units. */
+const POINT_CLOUD_SCALE = 0.2;
+const PRIMITIVE_SCALE = 1;
+const MAX_POINTS = 2500;
+
+/** Direction words → unit move in the view corridor (x right, y up, z toward the camera). */
+const DIRECTION_WORDS: Record<string, [number, number, number]> = {
+  left: [-1, 0, 0], right: [1, 0, 0],
+  up: [0, 1, 0], upward: [0, 1, 0], higher: [0, 1, 0], raise: [0, 1, 0], lift: [0, 1, 0],
+  down: [0, -1, 0], downward: [0, -1, 0], lower: [0, -1, 0],
+  forward: [0, 0, 1], closer: [0, 0, 1], nearer: [0, 0, 1], toward: [0, 0, 1], towards: [0, 0, 1],
+  back: [0, 0, -1], backward: [0, 0, -1], backwards: [0, 0, -1], away: [0, 0, -1], further: [0, 0, -1], farther: [0, 0, -1],
+};
+const REMOVE_WORDS = new Set(['remove', 'delete', 'erase', 'hide', 'destroy']);
+const RECOLOR_WORDS = new Set(['make', 'paint', 'color', 'colour', 'recolor', 'recolour', 'turn', 'tint']);
+const ROTATE_WORDS = new Set(['rotate', 'turn', 'spin', 'flip', 'twist']);
+const MOVE_WORDS = new Set(['move', 'shift', 'push', 'pull', 'nudge', 'slide', 'put', 'place', ...Object.keys(DIRECTION_WORDS)]);
+const GROW_WORDS = new Set(['bigger', 'larger', 'taller', 'grow', 'enlarge', 'expand']);
+const SHRINK_WORDS = new Set(['smaller', 'shorter', 'shrink', 'tinier', 'reduce']);
+const ADD_WORDS = new Set(['add', 'create', 'spawn', 'another', 'new']);
+const ALL_WORDS = new Set(['all', 'every', 'each', 'both', 'everything']);
+/** Adverbs that scale a relative edit ("slightly left", "much bigger"). */
+const AMOUNT_WORDS: Record<string, number> = { slightly: 0.5, bit: 0.5, little: 0.5, much: 2, lot: 2, way: 2, far: 2 };
+/** Default step of a relative edit: world units, scale factor, radians. */
+const MOVE_STEP = 10;
+const SCALE_STEP = 1.5;
+const ROTATE_STEP = Math.PI / 4;
+
+function tokenize(prompt: string): string[] {
+  return prompt.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+function singular(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return word.slice(0, -3) + 'y';
+  if (/(s|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/** Resolve a phrase like ['sakura', 'trees'] to an object type, or null. */
+function resolveNoun(words: string[]): { type: string; noun: string; plural: boolean } | null {
+  const exact = words.join('-');
+  const last = words[words.length - 1];
+  const singularForm = [...words.slice(0, -1), singular(last)].join('-');
+  for (const [candidate, plural] of [[exact, false], [singularForm, singularForm !== exact]] as const) {
+    const noun = candidate.replace(/-/g, ' ');
+    const asset = assetRegistry.resolve(candidate);
+    if (asset) return { type: asset, noun, plural };
+    if (candidate in PRIMITIVE_ALIASES) return { type: PRIMITIVE_ALIASES[candidate], noun, plural };
+  }
+  return null;
+}
+
+interface ObjectMention {
+  type: string;
+  /** Singular noun as written, e.g. 'sakura tree'. */
+  noun: string;
+  quantity: number;
+  color?: string;
+  colorWord?: string;
+  size: number;
+  sizeWord?: string;
+}
+
+/** Scan tokens for "[quantity] [size] [color] noun" mentions; modifiers bind to the next noun in the same clause. */
+function findMentions(tokens: string[]): ObjectMention[] {
+  const mentions: ObjectMention[] = [];
+  let quantity: number | undefined;
+  let colorWord: string | undefined;
+  let sizeWord: string | undefined;
+  const reset = () => {
+    quantity = undefined;
+    colorWord = undefined;
+    sizeWord = undefined;
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    let consumed = 0;
+    for (let n = Math.min(MAX_NOUN_WORDS, tokens.length - i); n >= 1; n--) {
+      const words = tokens.slice(i, i + n);
+      const noun = resolveNoun(words);
+      if (!noun) continue;
+      mentions.push({
+        type: noun.type,
+        noun: noun.noun,
+        quantity: Math.min(MAX_QUANTITY, quantity ?? (noun.plural ? PLURAL_QUANTITY : 1)),
+        color: colorWord ? COLOR_WORDS[colorWord] : undefined,
+        colorWord,
+        size: sizeWord ? SIZE_WORDS[sizeWord] : 1,
+        sizeWord,
+      });
+      reset();
+      consumed = n;
+      break;
+    }
+    if (consumed > 0) {
+      i += consumed;
+      continue;
+    }
+
+    const token = tokens[i];
+    if (/^\d+$/.test(token)) quantity = Math.max(1, parseInt(token, 10));
+    else if (token in QUANTITY_WORDS) quantity = QUANTITY_WORDS[token];
+    else if (token in COLOR_WORDS) colorWord = token;
+    else if (token in SIZE_WORDS) sizeWord = token;
+    else if (CLAUSE_BREAKS.has(token)) reset();
+    i++;
+  }
+  return mentions;
+}
+
+function titleCase(words: (string | undefined)[]): string {
+  return words
+    .filter((w): w is string => !!w)
+    .flatMap((w) => w.split(' '))
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+}
+
+/** Place mentions along the corridor in front of the camera: x spread left/right, z from near to far. */
+function mentionsToObjects(mentions: ObjectMention[], random: () => number): DreamObject[] {
+  const total = mentions.reduce((sum, m) => sum + m.quantity, 0);
+  const objects: DreamObject[] = [];
+  let index = 0;
+  for (const mention of mentions) {
+    const asset = assetRegistry.get(mention.type);
+    const isPointCloud = asset != null;
+    const palette = asset?.palette.length ? asset.palette : DREAM_PALETTE;
+    for (let k = 0; k < mention.quantity; k++) {
+      const depth = (index + 0.5) / total;
+      const side = index % 2 === 0 ? -1 : 1;
+      const s = (isPointCloud ? POINT_CLOUD_SCALE : PRIMITIVE_SCALE) * mention.size * (0.85 + random() * 0.3);
+      objects.push({
+        id: `${mention.type}_${String(index + 1).padStart(2, '0')}`,
+        type: mention.type,
+        position: [
+          side * (8 + random() * 32),
+          isPointCloud ? 0 : 2 + random() * 10,
+          -10 - depth * 80 + (random() - 0.5) * 6,
+        ],
+        scale: [s, s, s],
+        color: mention.color ?? palette[Math.floor(random() * palette.length)],
+        rotation: [0, random() * Math.PI * 2, 0],
+        name: titleCase([mention.sizeWord, mention.colorWord, mention.noun, mention.quantity > 1 ? String(k + 1) : undefined]),
+        maxPoints: MAX_POINTS,
+      });
+      index++;
+    }
+  }
+  return objects;
+}
+
+/** "three trees": the objects of each mention with a quantity above one form a group, e.g. 'Trees'. */
+function mentionGroups(mentions: ObjectMention[], objects: DreamObject[]): ObjectGroup[] {
+  const groups: ObjectGroup[] = [];
+  let index = 0;
+  for (const mention of mentions) {
+    const members = objects.slice(index, index + mention.quantity);
+    index += mention.quantity;
+    if (members.length < 2) continue;
+    groups.push({
+      id: `group_${String(groups.length + 1).padStart(2, '0')}`,
+      name: titleCase([mention.colorWord, `${mention.noun} cluster`]),
+      memberIds: members.map((o) => o.id),
+    });
+  }
+  return groups;
+}
+
+function findEditTargets(tokens: string[], liveObjects: ObjectSummary[]): ObjectSummary[] {
+  const clauseWords = new Set(normalizeWords(tokens.join(' ')));
+  const wantsAll = tokens.some((t) => ALL_WORDS.has(t));
+  let bestScore = 0;
+  let matches: ObjectSummary[] = [];
+  for (const object of liveObjects) {
+    const score = objectWords(object).filter((w) => clauseWords.has(w)).length;
+    if (score > bestScore) {
+      bestScore = score;
+      matches = [object];
+    } else if (score === bestScore && score > 0) {
+      matches.push(object);
+    }
+  }
+  if (matches.length === 0) return wantsAll ? liveObjects : [];
+  // A plural noun ("move the trees") means every match; otherwise the most recently added one.
+  const plural = tokens.some((t) => t !== singular(t) && clauseWords.has(singular(t)) && matches.some((m) => objectWords(m).includes(singular(t))));
+  return wantsAll || plural ? matches : [matches[matches.length - 1]];
+}
+
+/** Parse one clause ("make the church much bigger") into operations, updating `working` transforms in place. */
+function parseEditClause(tokens: string[], targets: ObjectSummary[], working: Map<string, ObjectSummary>): SceneEditOperation[] {
+  const has = (set: Set<string>) => tokens.some((t) => set.has(t));
+  const amount = tokens.reduce((a, t) => (t in AMOUNT_WORDS ? AMOUNT_WORDS[t] : a), 1);
+  const number = tokens.map((t) => parseFloat(t)).find((n) => Number.isFinite(n));
+  const colorWord = tokens.find((t) => t in COLOR_WORDS);
+  const operations: SceneEditOperation[] = [];
+
+  for (const target of targets) {
+    const current = working.get(target.id)!;
+    if (has(REMOVE_WORDS)) {
+      operations.push({ op: 'remove', id: target.id });
+      working.delete(target.id);
+      continue;
+    }
+    if (colorWord && has(RECOLOR_WORDS)) {
+      operations.push({ op: 'recolor', id: target.id, color: COLOR_WORDS[colorWord] });
+    }
+
+    const transform: Extract<SceneEditOperation, { op: 'transform' }> = { op: 'transform', id: target.id };
+    if (has(GROW_WORDS) || has(SHRINK_WORDS) || tokens.includes('twice') || tokens.includes('double') || tokens.includes('half')) {
+      let factor = tokens.includes('twice') || tokens.includes('double') ? 2 : tokens.includes('half') ? 0.5 : SCALE_STEP ** amount;
+      if (has(SHRINK_WORDS) && factor > 1) factor = 1 / factor;
+      current.scale = current.scale.map((v) => v * factor) as [number, number, number];
+      transform.scale = current.scale;
+    }
+    if (has(ROTATE_WORDS) && !colorWord) {
+      const angle = tokens.includes('around') || tokens.includes('flip')
+        ? Math.PI
+        : number != null && tokens.some((t) => t.startsWith('degree')) ? (number * Math.PI) / 180 : ROTATE_STEP * amount;
+      const sign = tokens.includes('right') || tokens.includes('clockwise') ? -1 : 1;
+      current.rotation = [current.rotation[0], current.rotation[1] + sign * angle, current.rotation[2]];
+      transform.rotation = current.rotation;
+    } else if (has(MOVE_WORDS)) {
+      const step = number ?? MOVE_STEP * amount;
+      const delta = tokens.reduce(
+        (d, t) => (t in DIRECTION_WORDS ? d.map((v, i) => v + DIRECTION_WORDS[t][i]) : d),
+        [0, 0, 0]
+      );
+      if (delta.some((v) => v !== 0)) {
+        current.position = current.position.map((v, i) => v + delta[i] * step) as [number, number, number];
+        transform.position = current.position;
+      }
+    }
+    if (transform.position || transform.rotation || transform.scale) operations.push(transform);
+  }
+  return operations;
+}
+
+export const parseEditPrompt = async (prompt: string, liveObjects: ObjectSummary[]): Promise<SceneEditOperation[]> => {
+  const working = new Map(liveObjects.map((o) => [o.id, { ...o }]));
+  const operations: SceneEditOperation[] = [];
+  let lastTargets: ObjectSummary[] = [];
+  const clauses = prompt.toLowerCase().split(/[,;]|\.(?!\d)|\b(?:and|then)\b/);
+  for (const clause of clauses) {
+    const tokens = tokenize(clause);
+    if (tokens.length === 0) continue;
+    if (tokens.some((t) => ADD_WORDS.has(t))) {
+      const random = createRandom(hashString(clause));
+      operations.push(...mentionsToObjects(findMentions(tokens), random).map((object) => ({ op: 'add' as const, object })));
+      continue;
+    }
+    const targets = findEditTargets(tokens, [...working.values()]);
+    // "move the tree left and make it bigger": a clause without a target edits the previous one.
+    const effective = targets.length > 0 ? targets : lastTargets.filter((t) => working.has(t.id));
+    operations.push(...parseEditClause(tokens, effective, working));
+    if (targets.length > 0) lastTargets = targets;
+  }
+  return operations;
+};
+
+export const decomposePrompt = async (
+  prompt: string,
+  liveObjects: ObjectSummary[],
+  options?: ObjectStreamOptions
+): Promise<PromptDecomposition> => {
+  options?.signal?.throwIfAborted();
+  if (looksLikeEdit(prompt, liveObjects)) return { kind: 'edit' };
+  const tokens = tokenize(prompt);
+  const describesEnvironment = tokens.some((t) => SCENE_WORDS.has(t));
+  const hasObjects = findMentions(tokens).length > 0;
+  // A prompt that names nothing we know is treated as a mood for the environment.
+  const ambience = describesEnvironment || !hasObjects ? prompt.trim().slice(0, 300) : null;
+  return {
+    kind: 'compose',
+    ambience,
+    scene: hasObjects ? await parseScenePrompt(prompt, options) : null,
+    atmosphere: ambience ? atmosphereFromAmbience(ambience) : undefined,
+  };
+};
+
+export const parseScenePrompt = async (prompt: string, options?: ObjectStreamOptions): Promise<SceneGraph> => {
+  const spec = proceduralSpecFromAmbience(prompt);
+  const random = createRandom(hashString(prompt));
+  const mentions = findMentions(tokenize(prompt));
+  const objects = mentionsToObjects(mentions, random);
+  objects.forEach((o) => options?.onObject?.(o));
+  const groups = mentionGroups(mentions, objects);
+  return {
+    objects,
+    ...(groups.length > 0 && { groups }),
+    skyColor: spec.sky[1],
+    terrainColor: spec.terrain[0],
+    ambience: prompt.trim().slice(0, 300),
+  };
+};
+
+// Sky and terrain are returned as procedural specs, which the renderer draws (seamless) itself.
+export const generateSkyTexture = async (
+  ambience: string,
+  options?: RequestOptions
+): Promise<ProceduralTextureSpec> => {
+  options?.signal?.throwIfAborted();
+  return proceduralSpecFromAmbience(ambience);
+};
+
+export const generateTerrainTexture = async (
+  ambience: string,
+  options?: RequestOptions
+): Promise<ProceduralTextureSpec> => {
+  options?.signal?.throwIfAborted();
+  return proceduralSpecFromAmbience(ambience);
+};
+
+export const offlineSceneProvider: SceneProvider = {
+  id: 'offline',
+  label: 'Offline (rule-based)',
+  isAvailable: () => typeof document !== 'undefined',
+  decomposePrompt,
+  parseScenePrompt,
+  parseEditPrompt,
+  generateSkyTexture,
+  generateTerrainTexture,
+};
@@ -0,0 +1,253 @@
+import * as THREE from 'three';
+import { PCDLoader } from 'three/examples/jsm/loaders/PCDLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { createRandom } from './proceduralTextures';
+
+/**
+ * Format-agnostic point-cloud loading. A parser is picked by magic bytes (PLY, PCD, LAS) or else by file
+ * extension (XYZ/CSV text, .splat), and every parser yields a BufferGeometry with `position` and optional
+ * linear `color` attributes, like PLYLoader, so all formats share the renderer's materialize/diffuse/lifetime pipeline.
+ */
+
+export type PointCloudFormat = 'ply' | 'pcd' | 'xyz' | 'csv' | 'las' | 'splat';
+
+/** File extensions each format is recognized by. */
+export const POINT_CLOUD_EXTENSIONS: Record<string, PointCloudFormat> = {
+  ply: 'ply',
+  pcd: 'pcd',
+  xyz: 'xyz',
+  txt: 'xyz',
+  pts: 'xyz',
+  csv: 'csv',
+  las: 'las',
+  laz: 'las',
+  splat: 'splat',
+};
+
+/** Larger non-PLY clouds (typically LiDAR scans) are thinned to a random subset of this many points. */
+const MAX_CLOUD_POINTS = 500_000;
+/** Gaussian splats more transparent than this (0–255) are dropped; as plain points they would only add haze. */
+const SPLAT_MIN_ALPHA = 26;
+const SPLAT_RECORD_BYTES = 32;
+
+/** Positions plus optional sRGB colors (0–1), as read from a file. */
+interface RawCloud {
+  positions: Float32Array;
+  colors?: Float32Array;
+}
+
+/** Format from a file name or URL extension ('scan.LAS' → 'las'), or null. */
+export function formatFromName(name: string): PointCloudFormat | null {
+  const match = /\.([a-z0-9]+)(?:[?#].*)?$/i.exec(name);
+  return match ? POINT_CLOUD_EXTENSIONS[match[1].toLowerCase()] ?? null : null;
+}
+
+/** Format from the first bytes of a file, for formats that have a signature (PLY, PCD, LAS); else null. */
+export function sniffPointCloudFormat(data: ArrayBuffer): PointCloudFormat | null {
+  const head = new TextDecoder('latin1').decode(data.slice(0, 512));
+  if (/^ply\r?\n/.test(head)) return 'ply';
+  if (head.startsWith('LASF')) return 'las';
+  // PCD: optional '#' comment lines, then a VERSION line.
+  if (/^(?:#[^\n]*\n\s*)*VERSION\s/.test(head.trimStart())) return 'pcd';
+  return null;
+}
+
+/** Parse a point-cloud file in the given format. Throws on malformed or unsupported data. */
+export function parsePointCloud(data: ArrayBuffer, format: PointCloudFormat): THREE.BufferGeometry {
+  switch (format) {
+    case 'ply': return new PLYLoader().parse(data);
+    case 'pcd': return toGeometry(readPcd(data));
+    case 'xyz':
+    case 'csv': return toGeometry(readDelimitedText(new TextDecoder().decode(data)));
+    case 'las': return toGeometry(readLas(data));
+    case 'splat': return toGeometry(readSplat(data));
+  }
+}
+
+/**
+ * Fetch and parse a point cloud. `format` is needed for URLs without a telling extension (e.g. blob URLs)
+ * and no signature; otherwise it is detected.
+ */
+export async function loadPointCloud(
+  url: string,
+  options: { format?: PointCloudFormat; signal?: AbortSignal } = {}
+): Promise<THREE.BufferGeometry> {
+  const response = await fetch(url, { signal: options.signal });
+  if (!response.ok) throw new Error(`Point cloud ${url}: HTTP ${response.status}`);
+  const data = await response.arrayBuffer();
+  const format = options.format ?? sniffPointCloudFormat(data) ?? formatFromName(url);
+  if (!format) throw new Error(`Point cloud ${url}: unrecognized format`);
+  return parsePointCloud(data, format);
+}
+
+/**
+ * Shuffle (seeded, so the same file always loads the same way) and thin to MAX_CLOUD_POINTS. The renderer
+ * reveals points in index order and diffuses the last indices, so scan-ordered files must not stay in order.
+ */
+function toGeometry({ positions, colors }: RawCloud): THREE.BufferGeometry {
+  const total = positions.length / 3;
+  if (total === 0) throw new Error('Point cloud has no points');
+  const count = Math.min(total, MAX_CLOUD_POINTS);
+  const order = new Uint32Array(total);
+  for (let i = 0; i < total; i++) order[i] = i;
+  const random = createRandom(total);
+  // Partial Fisher–Yates: only the first `count` slots are needed.
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (total - i));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const outPositions = new Float32Array(count * 3);
+  const outColors = colors ? new Float32Array(count * 3) : null;
+  const color = new THREE.Color();
+  for (let i = 0; i < count; i++) {
+    const src = order[i] * 3;
+    outPositions.set(positions.subarray(src, src + 3), i * 3);
+    if (colors && outColors) {
+      // Vertex colors are linear, as PLYLoader stores them.
+      color.setRGB(colors[src], colors[src + 1], colors[src + 2]).convertSRGBToLinear().toArray(outColors, i * 3);
+    }
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(outPositions, 3));
+  if (outColors) geometry.setAttribute('color', new THREE.BufferAttribute(outColors, 3));
+  return geometry;
+}
+
+function readPcd(data: ArrayBuffer): RawCloud {
+  const points = new PCDLoader().parse(data);
+  (points.material as THREE.Material).dispose();
+  const position = points.geometry.getAttribute('position') as THREE.BufferAttribute | undefined;
+  const color = points.geometry.getAttribute('color') as THREE.BufferAttribute | undefined;
+  points.geometry.dispose();
+  if (!position) throw new Error('PCD file has no x/y/z fields');
+  return { positions: position.array as Float32Array, colors: color?.array as Float32Array | undefined };
+}
+
+/** Scale integer color channels (0–255 or 0–65535) to 0–1; colors already in 0–1 are kept. */
+function normalizeColorRange(colors: Float32Array): Float32Array {
+  let max = 0;
+  for (let i = 0; i < colors.length; i++) max = Math.max(max, colors[i]);
+  const divisor = max > 255 ? 65535 : max > 1 ? 255 : 1;
+  if (divisor !== 1) for (let i = 0; i < colors.length; i++) colors[i] /= divisor;
+  return colors;
+}
+
+/**
+ * XYZ/CSV/PTS text: one point per line, values separated by whitespace, commas or semicolons. A header row
+ * (x, y, z, r/red, g/green, b/blue) names the columns; without one, columns are x y z [r g b], or
+ * x y z intensity r g b with seven columns (PTS). Lines with fewer than three numbers, such as the point count
+ * that starts each scan of a PTS file, are skipped and do not set the layout.
+ */
+function readDelimitedText(text: string): RawCloud {
+  const lines = text.split(/\r?\n/);
+  let columns: { x: number; y: number; z: number; r: number; g: number; b: number } | null = null;
+  const positions: number[] = [];
+  const colors: number[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('//')) continue;
+    const fields = trimmed.split(/[\s,;]+/);
+    const values = fields.map(Number);
+    if (!columns) {
+      if (values.some((v) => Number.isNaN(v))) {
+        const names = fields.map((f) => f.toLowerCase().replace(/^["']|["']$/g, ''));
+        const find = (...candidates: string[]) => names.findIndex((n) => candidates.includes(n));
+        columns = { x: find('x'), y: find('y'), z: find('z'), r: find('r', 'red'), g: find('g', 'green'), b: find('b', 'blue') };
+        if (columns.x < 0 || columns.y < 0 || columns.z < 0) throw new Error('Point list header has no x, y and z columns');
+        continue;
+      }
+      if (values.length < 3) continue;
+      const colorStart = values.length === 7 ? 4 : values.length >= 6 ? 3 : -1;
+      columns = { x: 0, y: 1, z: 2, r: colorStart, g: colorStart < 0 ? -1 : colorStart + 1, b: colorStart < 0 ? -1 : colorStart + 2 };
+    }
+    const x = values[columns.x];
+    const y = values[columns.y];
+    const z = values[columns.z];
+    if (![x, y, z].every(Number.isFinite)) continue;
+    positions.push(x, y, z);
+    if (columns.r >= 0 && columns.g >= 0 && columns.b >= 0) {
+      colors.push(values[columns.r] || 0, values[columns.g] || 0, values[columns.b] || 0);
+    }
+  }
+  const hasColors = colors.length === positions.length && colors.length > 0;
+  return {
+    positions: new Float32Array(positions),
+    colors: hasColors ? normalizeColorRange(new Float32Array(colors)) : undefined,
+  };
+}
+
+/** Byte offset of the RGB fields within a LAS point record, by point data format (no entry: no colors). */
+const LAS_RGB_OFFSET: Record<number, number> = { 2: 20, 3: 28, 5: 28, 7: 30, 8: 30, 10: 30 };
+
+/**
+ * LAS 1.0–1.4. LiDAR is z-up with georeferenced coordinates, so points are converted to y-up and centered
+ * horizontally with the lowest point at y = 0. Compressed LAZ is not supported.
+ */
+function readLas(data: ArrayBuffer): RawCloud {
+  const view = new DataView(data);
+  if (data.byteLength < 227 || new TextDecoder('latin1').decode(data.slice(0, 4)) !== 'LASF') {
+    throw new Error('Not a LAS file');
+  }
+  const versionMinor = view.getUint8(25);
+  const pointOffset = view.getUint32(96, true);
+  const rawFormat = view.getUint8(104);
+  // LAZ sets the top bits of the point format id.
+  if (rawFormat & 0xc0) throw new Error('Compressed LAZ files are not supported; decompress to LAS first');
+  const pointFormat = rawFormat & 0x3f;
+  const recordLength = view.getUint16(105, true);
+  let count = view.getUint32(107, true);
+  if (count === 0 && versionMinor >= 4 && data.byteLength >= 255) count = Number(view.getBigUint64(247, true));
+  count = Math.min(count, Math.floor((data.byteLength - pointOffset) / recordLength));
+
+  const [scaleX, scaleY, scaleZ] = [131, 139, 147].map((o) => view.getFloat64(o, true));
+  const [offsetX, offsetY, offsetZ] = [155, 163, 171].map((o) => view.getFloat64(o, true));
+  const [maxX, minX, maxY, minY, , minZ] = [179, 187, 195, 203, 211, 219].map((o) => view.getFloat64(o, true));
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+  const rgbOffset = LAS_RGB_OFFSET[pointFormat];
+
+  const positions = new Float32Array(count * 3);
+  const colors = rgbOffset !== undefined ? new Float32Array(count * 3) : undefined;
+  for (let i = 0; i < count; i++) {
+    const record = pointOffset + i * recordLength;
+    const x = view.getInt32(record, true) * scaleX + offsetX;
+    const y = view.getInt32(record + 4, true) * scaleY + offsetY;
+    const z = view.getInt32(record + 8, true) * scaleZ + offsetZ;
+    positions[i * 3] = x - centerX;
+    positions[i * 3 + 1] = z - minZ;
+    positions[i * 3 + 2] = -(y - centerY);
+    if (colors) {
+      colors[i * 3] = view.getUint16(record + rgbOffset, true);
+      colors[i * 3 + 1] = view.getUint16(record + rgbOffset + 2, true);
+      colors[i * 3 + 2] = view.getUint16(record + rgbOffset + 4, true);
+    }
+  }
+  return { positions, colors: colors && normalizeColorRange(colors) };
+}
+
+/**
+ * Gaussian splats in the common 32-byte .splat layout: position (3 float32), scale (3 float32),
+ * RGBA (4 uint8), rotation (4 uint8). Each splat becomes one point at its center; shape is not kept.
+ */
+function readSplat(data: ArrayBuffer): RawCloud {
+  if (data.byteLength === 0 || data.byteLength % SPLAT_RECORD_BYTES !== 0) {
+    throw new Error('Not a .splat file (size is not a multiple of 32 bytes)');
+  }
+  const total = data.byteLength / SPLAT_RECORD_BYTES;
+  const floats = new Float32Array(data);
+  const bytes = new Uint8Array(data);
+  const positions = new Float32Array(total * 3);
+  const colors = new Float32Array(total * 3);
+  let count = 0;
+  for (let i = 0; i < total; i++) {
+    const color = i * SPLAT_RECORD_BYTES + 24;
+    if (bytes[color + 3] < SPLAT_MIN_ALPHA) continue;
+    positions.set(floats.subarray(i * 8, i * 8 + 3), count * 3);
+    colors[count * 3] = bytes[color] / 255;
+    colors[count * 3 + 1] = bytes[color + 1] / 255;
+    colors[count * 3 + 2] = bytes[color + 2] / 255;
+    count++;
+  }
+  return { positions: positions.subarray(0, count * 3), colors: colors.subarray(0, count * 3) };
+}
@@ -0,0 +1,284 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import type { PostEffect, PostQuality } from '../types';
+
+/**
+ * Post-processing on top of the additive point rendering: bloom where points pile up into glows, depth of field
+ * focused on the selected object, a vignette and film grain, chained with EffectComposer. Quality presets trade
+ * bloom resolution and blur samples for speed; with adaptive quality on, the preset steps down while the frame
+ * rate stays low and back up once it recovers.
+ */
+
+export const POST_QUALITIES: PostQuality[] = ['off', 'low', 'medium', 'high'];
+export const POST_EFFECTS: PostEffect[] = ['bloom', 'depthOfField', 'vignette', 'grain'];
+
+interface QualityPreset {
+  /** Bloom is computed at this fraction of the drawing-buffer size. */
+  bloomResolution: number;
+  /** Blur taps per pixel for depth of field. */
+  blurSamples: number;
+}
+
+const QUALITY_PRESETS: Record<Exclude<PostQuality, 'off'>, QualityPreset> = {
+  low: { bloomResolution: 0.25, blurSamples: 8 },
+  medium: { bloomResolution: 0.5, blurSamples: 16 },
+  high: { bloomResolution: 1, blurSamples: 32 },
+};
+
+/** Bloom: only what additive points push past white glows (the scene renders to half-float targets). */
+const BLOOM_STRENGTH = 0.6;
+const BLOOM_RADIUS = 0.5;
+const BLOOM_THRESHOLD = 1;
+/** Depth of field: blur per unit of relative defocus, and its cap, in fractions of the screen height. */
+const DOF_APERTURE = 0.02;
+const DOF_MAX_BLUR = 0.02;
+/** Seconds for the focus to follow a new distance, and to fade the blur in or out (time constants). */
+const FOCUS_SECONDS = 0.3;
+const VIGNETTE_OFFSET = 0.9;
+const VIGNETTE_DARKNESS = 0.8;
+const GRAIN_INTENSITY = 0.2;
+/** Adaptive quality: step down after this long below the low frame rate, up after this long above the high one. */
+const ADAPT_LOW_FPS = 40;
+const ADAPT_HIGH_FPS = 55;
+const ADAPT_DOWN_SECONDS = 2;
+const ADAPT_UP_SECONDS = 10;
+/** Frames longer than this (a hidden tab, a stall while loading) say nothing about the effects' cost. */
+const ADAPT_MAX_FRAME_SECONDS = 0.5;
+
+export interface PostProcessingSettings {
+  /** Preset chosen by the user; the one in use may be lower (see activeQuality). */
+  quality: PostQuality;
+  effects: Record<PostEffect, boolean>;
+  /** Step the preset down while the frame rate is low. */
+  adaptive: boolean;
+}
+
+/** Some of the settings to change; effects not mentioned keep their state. */
+export interface PostProcessingChanges {
+  quality?: PostQuality;
+  effects?: Partial<Record<PostEffect, boolean>>;
+  adaptive?: boolean;
+}
+
+/**
+ * Disc blur whose radius grows with distance from the focus plane. Depth comes from the scene render itself:
+ * the points size themselves in their own shader, so a depth re-render with an override material would lose them.
+ * A sample only counts if its own blur reaches this pixel, so sharp objects do not bleed into a blurred background.
+ */
+const DepthOfFieldShader = {
+  defines: { SAMPLES: QUALITY_PRESETS.high.blurSamples },
+  uniforms: {
+    tDiffuse: { value: null },
+    tDepth: { value: null },
+    cameraNear: { value: 0.1 },
+    cameraFar: { value: 1000 },
+    focusDistance: { value: 10 },
+    aperture: { value: 0 },
+    maxBlur: { value: DOF_MAX_BLUR },
+    aspect: { value: 1 },
+  },
+  vertexShader: /* glsl */ `
+varying vec2 vUv;
+
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`,
+  fragmentShader: /* glsl */ `
+#include <packing>
+uniform sampler2D tDiffuse;
+uniform sampler2D tDepth;
+uniform float cameraNear;
+uniform float cameraFar;
+uniform float focusDistance;
+uniform float aperture;
+uniform float maxBlur;
+uniform float aspect;
+varying vec2 vUv;
+
+float blurAt(vec2 uv) {
+  float distance = -perspectiveDepthToViewZ(texture2D(tDepth, uv).x, cameraNear, cameraFar);
+  return min(maxBlur, aperture * abs(distance - focusDistance) / distance);
+}
+
+void main() {
+  float radius = blurAt(vUv);
+  vec4 sum = texture2D(tDiffuse, vUv);
+  float weight = 1.0;
+  for (int i = 0; i < SAMPLES; i++) {
+    // Vogel spiral: evenly spread taps over the disc.
+    float r = sqrt((float(i) + 0.5) / float(SAMPLES)) * radius;
+    float a = float(i) * 2.39996323;
+    vec2 uv = vUv + vec2(cos(a) / aspect, sin(a)) * r;
+    float w = clamp(blurAt(uv) / max(r, 1e-5), 0.0, 1.0);
+    sum += texture2D(tDiffuse, uv) * w;
+    weight += w;
+  }
+  gl_FragColor = sum / weight;
+}
+`,
+};
+
+export class PostProcessing {
+  private readonly composer: EffectComposer;
+  private readonly bloom: UnrealBloomPass;
+  private readonly depthOfField: ShaderPass;
+  private readonly vignette: ShaderPass;
+  private readonly grain: FilmPass;
+  private _settings: PostProcessingSettings = {
+    quality: 'high',
+    effects: { bloom: true, depthOfField: true, vignette: true, grain: true },
+    adaptive: true,
+  };
+  private _activeQuality: PostQuality = 'high';
+  /** Seconds the frame rate has been below ADAPT_LOW_FPS / above ADAPT_HIGH_FPS. */
+  private slowFor = 0;
+  private fastFor = 0;
+  /** Distance to focus on (null: nothing selected), the eased focus distance, and how far the blur is faded in. */
+  private focusTarget: number | null = null;
+  private focusDistance = 10;
+  private focusAmount = 0;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    private readonly renderer: THREE.WebGLRenderer,
+    private readonly scene: THREE.Scene,
+    private readonly camera: THREE.PerspectiveCamera
+  ) {
+    // Half-float color keeps additive pile-ups above 1 for the bloom threshold; the depth texture feeds the blur.
+    const target = new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType, depthTexture: new THREE.DepthTexture(1, 1) });
+    this.composer = new EffectComposer(renderer, target);
+    // The composer clones the target for its second buffer, and a cloned depth texture shares its image: give the
+    // second buffer its own, so the blur never samples the depth attached to the target it draws into.
+    this.composer.renderTarget2.depthTexture = new THREE.DepthTexture(1, 1);
+    this.composer.addPass(new RenderPass(scene, camera));
+    this.depthOfField = new ShaderPass(DepthOfFieldShader);
+    this.depthOfField.material.depthTest = false;
+    this.depthOfField.material.depthWrite = false;
+    this.composer.addPass(this.depthOfField);
+    this.bloom = new UnrealBloomPass(new THREE.Vector2(1, 1), BLOOM_STRENGTH, BLOOM_RADIUS, BLOOM_THRESHOLD);
+    this.composer.addPass(this.bloom);
+    this.vignette = new ShaderPass(VignetteShader);
+    this.vignette.uniforms.offset.value = VIGNETTE_OFFSET;
+    this.vignette.uniforms.darkness.value = VIGNETTE_DARKNESS;
+    this.composer.addPass(this.vignette);
+    this.grain = new FilmPass(GRAIN_INTENSITY, 0, 0, 0);
+    this.composer.addPass(this.grain);
+    this.setSize(window.innerWidth, window.innerHeight);
+    this.applySettings();
+  }
+
+  get settings(): PostProcessingSettings {
+    return this._settings;
+  }
+
+  /** The preset in use: the chosen one, or lower while adaptive quality has stepped it down. */
+  get activeQuality(): PostQuality {
+    return this._activeQuality;
+  }
+
+  /** Change the preset, effects or adaptivity; choosing a preset also resets any adaptive step-down. */
+  update(changes: PostProcessingChanges): void {
+    const effects = { ...this._settings.effects, ...changes.effects };
+    this._settings = { ...this._settings, ...changes, effects };
+    if (changes.quality || changes.adaptive === false) this._activeQuality = this._settings.quality;
+    this.slowFor = this.fastFor = 0;
+    this.applySettings();
+  }
+
+  /** Call `listener` whenever the settings or the active preset change; returns an unsubscribe function. */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Focus the depth of field this far from the camera, or fade it out (null). */
+  setFocus(distance: number | null): void {
+    this.focusTarget = distance;
+  }
+
+  /** Size in CSS pixels; the drawing-buffer size follows the renderer's pixel ratio. */
+  setSize(width: number, height: number): void {
+    this.composer.setPixelRatio(this.renderer.getPixelRatio());
+    this.composer.setSize(width, height);
+    this.depthOfField.uniforms.aspect.value = width / height;
+    this.applyBloomResolution();
+  }
+
+  /**
+   * Render a frame: eases the focus, adapts the preset to `fps` (the smoothed frame rate) and draws the scene
+   * through the enabled effects, or directly when none is in use.
+   */
+  render(delta: number, fps: number): void {
+    this.adapt(delta, fps);
+    const fade = 1 - Math.exp(-delta / FOCUS_SECONDS);
+    if (this.focusTarget !== null) this.focusDistance += (this.focusTarget - this.focusDistance) * fade;
+    this.focusAmount += ((this.focusTarget !== null ? 1 : 0) - this.focusAmount) * fade;
+
+    const { effects } = this._settings;
+    const on = this._activeQuality !== 'off';
+    this.depthOfField.enabled = on && effects.depthOfField && this.focusAmount > 0.01;
+    if (!(on && (effects.bloom || effects.vignette || effects.grain || this.depthOfField.enabled))) {
+      this.renderer.render(this.scene, this.camera);
+      return;
+    }
+    const dof = this.depthOfField.uniforms;
+    // The scene pass renders into the read buffer, which the blur reads next.
+    dof.tDepth.value = this.composer.readBuffer.depthTexture;
+    dof.cameraNear.value = this.camera.near;
+    dof.cameraFar.value = this.camera.far;
+    dof.focusDistance.value = this.focusDistance;
+    dof.aperture.value = DOF_APERTURE * this.focusAmount;
+    this.composer.render(delta);
+  }
+
+  /** Step the active preset down after sustained low frame rates, and back toward the chosen one after high ones. */
+  private adapt(delta: number, fps: number): void {
+    if (!this._settings.adaptive || delta <= 0 || delta > ADAPT_MAX_FRAME_SECONDS) return;
+    this.slowFor = fps < ADAPT_LOW_FPS ? this.slowFor + delta : 0;
+    this.fastFor = fps > ADAPT_HIGH_FPS ? this.fastFor + delta : 0;
+    const index = POST_QUALITIES.indexOf(this._activeQuality);
+    if (this.slowFor >= ADAPT_DOWN_SECONDS && index > 0) {
+      this.setActiveQuality(POST_QUALITIES[index - 1]);
+    } else if (this.fastFor >= ADAPT_UP_SECONDS && index < POST_QUALITIES.indexOf(this._settings.quality)) {
+      this.setActiveQuality(POST_QUALITIES[index + 1]);
+    }
+  }
+
+  private setActiveQuality(quality: PostQuality): void {
+    this._activeQuality = quality;
+    this.slowFor = this.fastFor = 0;
+    this.applySettings();
+  }
+
+  private applySettings(): void {
+    const { effects } = this._settings;
+    this.bloom.enabled = effects.bloom;
+    this.vignette.enabled = effects.vignette;
+    this.grain.enabled = effects.grain;
+    if (this._activeQuality !== 'off') {
+      const { blurSamples } = QUALITY_PRESETS[this._activeQuality];
+      const material = this.depthOfField.material;
+      if (material.defines.SAMPLES !== blurSamples) {
+        material.defines.SAMPLES = blurSamples;
+        material.needsUpdate = true;
+      }
+      this.applyBloomResolution();
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /** The composer sizes every pass to the full buffer; bloom is then scaled down to the preset's resolution. */
+  private applyBloomResolution(): void {
+    if (this._activeQuality === 'off') return;
+    const scale = QUALITY_PRESETS[this._activeQuality].bloomResolution;
+    const size = this.renderer.getDrawingBufferSize(new THREE.Vector2());
+    this.bloom.setSize(Math.max(1, Math.round(size.x * scale)), Math.max(1, Math.round(size.y * scale)));
+  }
+}
@@ -0,0 +1,234 @@
+import type { ProceduralTextureSpec } from '../types';
+
+/**
+ * Procedural sky and terrain textures drawn on a canvas from a palette and a seed: sky gradients with
+ * clouds and starfields, and seamless terrain (tileable noise plus glowing veins).
+ * Used when image generation is unavailable or fails, by the offline provider, and as a creative mode.
+ */
+
+type SpecParams = Pick<ProceduralTextureSpec, 'stars' | 'clouds' | 'roughness' | 'veins'>;
+
+interface AmbiencePalette extends SpecParams {
+  keywords: string[];
+  sky: [string, string, string];
+  terrain: [string, string];
+}
+
+const AMBIENCE_PALETTES: AmbiencePalette[] = [
+  { keywords: ['night', 'midnight', 'star', 'stars', 'starry', 'galaxy', 'space', 'moon', 'aurora'], sky: ['#03030F', '#10163A', '#2C2F6B'], terrain: ['#0B0D1E', '#5B6CF0'], stars: 0.8, clouds: 0.1, roughness: 0.4, veins: 0.6 },
+  { keywords: ['sunset', 'dusk', 'evening', 'twilight'], sky: ['#2B1B4A', '#D9577A', '#FDBA90'], terrain: ['#3A2430', '#F2A07B'], stars: 0.1, clouds: 0.5, roughness: 0.4, veins: 0.4 },
+  { keywords: ['dawn', 'sunrise', 'morning'], sky: ['#5B6FB5', '#F4B6C2', '#FFE4C4'], terrain: ['#4A3F4F', '#F2C6B4'], stars: 0, clouds: 0.5, roughness: 0.3, veins: 0.3 },
+  { keywords: ['neon', 'cyberpunk', 'city', 'synthwave'], sky: ['#0A0220', '#3B0A5C', '#C2187A'], terrain: ['#0D0A1A', '#00E5FF'], stars: 0.5, clouds: 0.1, roughness: 0.2, veins: 0.9 },
+  { keywords: ['ocean', 'sea', 'underwater', 'lake', 'water'], sky: ['#0B3D5C', '#3E8FB0', '#A8DADC'], terrain: ['#0F2F3F', '#7FE0E0'], stars: 0, clouds: 0.4, roughness: 0.3, veins: 0.5 },
+  { keywords: ['desert', 'sand', 'dune', 'dunes'], sky: ['#4E7BB5', '#E8C9A0', '#F6E3C6'], terrain: ['#A8764A', '#F4D03F'], stars: 0, clouds: 0.1, roughness: 0.5, veins: 0.2 },
+  { keywords: ['snow', 'snowy', 'winter', 'ice', 'frozen'], sky: ['#6F86A6', '#C9D6E3', '#F2F5F8'], terrain: ['#DCE4EC', '#9EC9F0'], stars: 0, clouds: 0.6, roughness: 0.3, veins: 0.3 },
+  { keywords: ['forest', 'meadow', 'garden', 'spring', 'sakura', 'cherry', 'field'], sky: ['#7FB2D9', '#CDE7F0', '#F7E5EC'], terrain: ['#24452C', '#8FCB8B'], stars: 0, clouds: 0.5, roughness: 0.6, veins: 0.3 },
+  { keywords: ['storm', 'rain', 'rainy', 'fog', 'foggy', 'mist', 'misty', 'gloomy'], sky: ['#2E3440', '#5E6779', '#9AA3B5'], terrain: ['#2A2F38', '#8FA3BF'], stars: 0, clouds: 0.9, roughness: 0.5, veins: 0.2 },
+];
+
+/** Soft pastel dream used when no keyword matches. */
+const DEFAULT_PALETTE: AmbiencePalette = {
+  keywords: [], sky: ['#3B2C5E', '#B48EC7', '#F7E5EC'], terrain: ['#2E2440', '#EEBEC6'], stars: 0.2, clouds: 0.4, roughness: 0.4, veins: 0.5,
+};
+
+/** Words that nudge the parameters of whichever palette was picked. */
+const AMBIENCE_MODIFIERS: { keywords: string[]; adjust: Partial<SpecParams> }[] = [
+  { keywords: ['starry', 'stars', 'galaxy', 'cosmic', 'celestial'], adjust: { stars: 0.4 } },
+  { keywords: ['cloudy', 'clouds', 'overcast', 'fog', 'foggy', 'mist', 'misty', 'hazy'], adjust: { clouds: 0.4, stars: -0.4 } },
+  { keywords: ['clear', 'crisp', 'cloudless'], adjust: { clouds: -0.4 } },
+  { keywords: ['glowing', 'glow', 'neon', 'magic', 'magical', 'luminous', 'bioluminescent', 'ethereal'], adjust: { veins: 0.4 } },
+  { keywords: ['rocky', 'rugged', 'craggy', 'wild', 'rough', 'volcanic'], adjust: { roughness: 0.4 } },
+  { keywords: ['calm', 'soft', 'smooth', 'gentle', 'serene', 'peaceful'], adjust: { roughness: -0.3 } },
+];
+
+const SKY_WIDTH = 1024;
+const SKY_HEIGHT = 576;
+const TERRAIN_SIZE = 512;
+/** Terrain noise: lattice cells across the tile for the first octave; each further octave doubles it. */
+const NOISE_BASE_PERIOD = 4;
+const NOISE_OCTAVES = 4;
+
+/** FNV-1a hash; seeds the PRNG so the same text always yields the same result. */
+export function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: tiny deterministic PRNG returning values in [0, 1). */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Map an ambience description to a spec: the palette with the most keyword hits, adjusted by modifier
+ * words ("starry", "misty", "glowing", ...). The seed defaults to a hash of the text.
+ */
+export function proceduralSpecFromAmbience(ambience: string, seed = hashString(ambience)): ProceduralTextureSpec {
+  const words = new Set(ambience.toLowerCase().match(/[a-z]+/g) ?? []);
+  let palette = DEFAULT_PALETTE;
+  let bestHits = 0;
+  for (const candidate of AMBIENCE_PALETTES) {
+    const hits = candidate.keywords.filter((k) => words.has(k)).length;
+    if (hits > bestHits) {
+      palette = candidate;
+      bestHits = hits;
+    }
+  }
+  const params: SpecParams = { stars: palette.stars, clouds: palette.clouds, roughness: palette.roughness, veins: palette.veins };
+  for (const { keywords, adjust } of AMBIENCE_MODIFIERS) {
+    if (!keywords.some((k) => words.has(k))) continue;
+    for (const [key, delta] of Object.entries(adjust) as [keyof SpecParams, number][]) {
+      params[key] = clamp01(params[key] + delta);
+    }
+  }
+  return { kind: 'procedural', seed, sky: [...palette.sky], terrain: [...palette.terrain], ...params };
+}
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return [canvas, canvas.getContext('2d')!];
+}
+
+/** Vertical gradient with a starfield toward the top and soft cloud puffs toward the horizon. */
+export function renderProceduralSky(spec: ProceduralTextureSpec): HTMLCanvasElement {
+  const random = createRandom(hashString('sky') ^ spec.seed);
+  const [canvas, ctx] = createCanvas(SKY_WIDTH, SKY_HEIGHT);
+  const { width, height } = canvas;
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  gradient.addColorStop(0, spec.sky[0]);
+  gradient.addColorStop(0.6, spec.sky[1]);
+  gradient.addColorStop(1, spec.sky[2]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const starCount = Math.round(spec.stars * 800);
+  for (let i = 0; i < starCount; i++) {
+    const x = random() * width;
+    // Denser near the zenith, fading out toward the horizon.
+    const y = height * 0.7 * random() ** 1.5;
+    const big = random() < 0.08;
+    ctx.fillStyle = `rgba(255,255,255,${(0.3 + random() * 0.7) * (1 - y / (height * 0.8))})`;
+    ctx.fillRect(x, y, big ? 2 : 1, big ? 2 : 1);
+    if (big && random() < 0.3) {
+      const glow = ctx.createRadialGradient(x + 1, y + 1, 0, x + 1, y + 1, 6);
+      glow.addColorStop(0, 'rgba(255,255,255,0.35)');
+      glow.addColorStop(1, 'rgba(255,255,255,0)');
+      ctx.fillStyle = glow;
+      ctx.fillRect(x - 6, y - 6, 14, 14);
+    }
+  }
+
+  const cloudCount = Math.round(spec.clouds * 40);
+  for (let i = 0; i < cloudCount; i++) {
+    const x = random() * width;
+    const y = height * (0.3 + random() * 0.5);
+    const r = 40 + random() * 120;
+    const puff = ctx.createRadialGradient(x, y, 0, x, y, r);
+    puff.addColorStop(0, `rgba(255,255,255,${0.06 + spec.clouds * 0.1})`);
+    puff.addColorStop(1, 'rgba(255,255,255,0)');
+    ctx.fillStyle = puff;
+    ctx.fillRect(x - r, y - r, r * 2, r * 2);
+  }
+  return canvas;
+}
+
+/** Fractal value noise that wraps at the tile edges; values in [0, 1]. */
+function tileableNoise(size: number, random: () => number): Float32Array {
+  const out = new Float32Array(size * size);
+  let amplitude = 0.5;
+  let total = 0;
+  for (let octave = 0; octave < NOISE_OCTAVES; octave++) {
+    const period = NOISE_BASE_PERIOD << octave;
+    const lattice = Float32Array.from({ length: period * period }, () => random());
+    for (let y = 0; y < size; y++) {
+      const fy = (y / size) * period;
+      const y0 = Math.floor(fy);
+      const ty = fy - y0;
+      const sy = ty * ty * (3 - 2 * ty);
+      const row0 = y0 * period;
+      const row1 = ((y0 + 1) % period) * period;
+      for (let x = 0; x < size; x++) {
+        const fx = (x / size) * period;
+        const x0 = Math.floor(fx);
+        const tx = fx - x0;
+        const sx = tx * tx * (3 - 2 * tx);
+        const x1 = (x0 + 1) % period;
+        const top = lattice[row0 + x0] + (lattice[row0 + x1] - lattice[row0 + x0]) * sx;
+        const bottom = lattice[row1 + x0] + (lattice[row1 + x1] - lattice[row1 + x0]) * sx;
+        out[y * size + x] += (top + (bottom - top) * sy) * amplitude;
+      }
+    }
+    total += amplitude;
+    amplitude *= 0.5;
+  }
+  for (let i = 0; i < out.length; i++) out[i] /= total;
+  return out;
+}
+
+/** Seamless terrain tile: base color shaded by tileable noise, plus glowing veins drawn at wrapped offsets. */
+export function renderProceduralTerrain(spec: ProceduralTextureSpec): HTMLCanvasElement {
+  const random = createRandom(hashString('terrain') ^ spec.seed);
+  const size = TERRAIN_SIZE;
+  const [canvas, ctx] = createCanvas(size, size);
+  ctx.fillStyle = spec.terrain[0];
+  ctx.fillRect(0, 0, size, size);
+
+  const image = ctx.getImageData(0, 0, size, size);
+  const noise = tileableNoise(size, random);
+  const contrast = 0.2 + spec.roughness * 0.8;
+  for (let i = 0; i < noise.length; i++) {
+    const shade = 1 + (noise[i] - 0.5) * 2 * contrast;
+    image.data[i * 4] = Math.min(255, image.data[i * 4] * shade + 4 * shade);
+    image.data[i * 4 + 1] = Math.min(255, image.data[i * 4 + 1] * shade + 4 * shade);
+    image.data[i * 4 + 2] = Math.min(255, image.data[i * 4 + 2] * shade + 4 * shade);
+  }
+  ctx.putImageData(image, 0, 0);
+
+  const offsets = [-size, 0, size];
+  const wrapped = (draw: () => void) => {
+    for (const dx of offsets) {
+      for (const dy of offsets) {
+        ctx.save();
+        ctx.translate(dx, dy);
+        draw();
+        ctx.restore();
+      }
+    }
+  };
+  ctx.strokeStyle = spec.terrain[1];
+  ctx.shadowColor = spec.terrain[1];
+  ctx.shadowBlur = 4 + spec.veins * 8;
+  ctx.lineWidth = 1 + spec.veins;
+  ctx.globalAlpha = 0.3 + spec.veins * 0.5;
+  const veinCount = Math.round(spec.veins * 12);
+  for (let v = 0; v < veinCount; v++) {
+    const points: [number, number][] = [[random() * size, random() * size]];
+    let angle = random() * Math.PI * 2;
+    for (let step = 0; step < 30; step++) {
+      angle += (random() - 0.5) * 1.2;
+      const [px, py] = points[points.length - 1];
+      points.push([px + Math.cos(angle) * 12, py + Math.sin(angle) * 12]);
+    }
+    wrapped(() => {
+      ctx.beginPath();
+      points.forEach(([x, y], idx) => (idx === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.stroke();
+    });
+  }
+  return canvas;
+}
@@ -0,0 +1,103 @@
+/**
+ * Cancellation, time limits and retries for provider requests.
+ */
+
+/** Options accepted by every SceneProvider call. */
+export interface RequestOptions {
+  /** Aborting rejects the call with an AbortError; no result is produced afterwards. */
+  signal?: AbortSignal;
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Time limit for a single attempt. */
+  timeoutMs: number;
+  /** Extra attempts after the first one, for transient errors only. */
+  retries?: number;
+  /** Delay before the first retry; doubled for each further retry (with jitter). */
+  baseDelayMs?: number;
+  /** Asked before each retry; false fails with the error instead (e.g. once partial results were handed out). */
+  canRetry?: () => boolean;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 800;
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/** True for errors caused by aborting a signal (user cancellation). */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+    || (typeof DOMException !== 'undefined' && error instanceof DOMException && error.name === 'AbortError');
+}
+
+/** Timeouts, rate limits, server errors and network failures are worth retrying; bad requests are not. */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof RequestTimeoutError) return true;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  if (error instanceof TypeError) return true; // fetch() network failure
+  const message = error instanceof Error ? error.message : String(error);
+  return /fetch failed|network|ECONNRESET|ETIMEDOUT|UNAVAILABLE|RESOURCE_EXHAUSTED|overloaded/i.test(message);
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/** Settle with `promise`, or reject as soon as `signal` aborts (even if the underlying call ignores it). */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run `call` with a per-attempt timeout, retrying transient failures with exponential backoff.
+ * `call` receives a signal that aborts on cancellation or timeout; pass it on to fetch / the SDK.
+ * Cancellation via `options.signal` is never retried and rejects with an AbortError.
+ */
+export async function withRetry<T>(call: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { signal, timeoutMs, retries = DEFAULT_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS, canRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+    const attemptSignal = signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal;
+    try {
+      return await raceAbort(call(attemptSignal), attemptSignal);
+    } catch (error) {
+      if (signal?.aborted) throw abortReason(signal);
+      // The SDK may report our timeout as a generic abort; surface it as the timeout it was.
+      const cause = timeout.signal.aborted ? timeout.signal.reason : error;
+      if (attempt >= retries || !isTransientError(cause) || canRetry?.() === false) throw cause;
+      const delay = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      console.warn(`Request failed (${cause instanceof Error ? cause.message : cause}); retrying in ${Math.round(delay)} ms`);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
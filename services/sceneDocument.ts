@@ -0,0 +1,271 @@
+import type {
+  Atmosphere,
+  CameraKeyframe,
+  CameraPath,
+  CameraPose,
+  LiveObjectState,
+  ObjectGroup,
+  ObjectLifetimeState,
+  ProceduralTextureSpec,
+  SceneEnvironment,
+  TextureSource,
+} from '../types';
+import type { DreamRenderer } from './sceneService';
+import { atmosphereFromAmbience, DEFAULT_ATMOSPHERE } from './atmosphere';
+import {
+  createValidationContext,
+  LIVE_POSITION_RANGE,
+  normalizeColor,
+  validateAtmosphere,
+  validateDreamObject,
+  validateGroups,
+} from './sceneValidation';
+
+/**
+ * Versioned scene files: everything needed to rebuild a dream exactly as it was saved — sky and terrain
+ * images and atmosphere, every object's live transform, color, type and lifetime state, object groups, the camera
+ * rig pose and saved camera paths.
+ */
+
+export const SCENE_DOCUMENT_FORMAT = 'dreamsculpt-scene';
+/** Bump on incompatible changes and add a step to MIGRATIONS. */
+export const SCENE_DOCUMENT_VERSION = 2;
+export const SCENE_FILE_EXTENSION = '.dream.json';
+
+export interface SceneDocument {
+  format: typeof SCENE_DOCUMENT_FORMAT;
+  version: number;
+  /** ISO timestamp. */
+  savedAt: string;
+  ambience: string;
+  environment: SceneEnvironment;
+  /** Derived from the ambience in files saved before atmospheres existed. */
+  atmosphere: Atmosphere;
+  objects: LiveObjectState[];
+  /** Missing in files saved before groups existed. */
+  groups: ObjectGroup[];
+  camera: CameraPose;
+  /** Missing in files saved before camera paths existed. */
+  cameraPaths: CameraPath[];
+}
+
+/** Version 1 timed camera keyframes in world drift: 1.5 units a second at 60 frames a second. */
+const V1_DRIFT_PER_SECOND = 1.5;
+
+/** MIGRATIONS[n] upgrades a version-n document to version n + 1. */
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  // Camera keyframes are timed in seconds since version 2.
+  1: (doc) => ({
+    ...doc,
+    cameraPaths: Array.isArray(doc.cameraPaths)
+      ? doc.cameraPaths.map((path) => isRecord(path) && Array.isArray(path.keyframes)
+        ? {
+            ...path,
+            keyframes: path.keyframes.map((k) =>
+              isRecord(k) && typeof k.at === 'number' ? { ...k, at: k.at / V1_DRIFT_PER_SECOND } : k
+            ),
+          }
+        : path)
+      : doc.cameraPaths,
+  }),
+};
+
+const DEFAULT_ENVIRONMENT: SceneEnvironment = { skyColor: '#FFFFFF', terrainColor: '#FFFFFF', sky: null, terrain: null };
+const DEFAULT_CAMERA: CameraPose = { position: [0, 0, 0], rotation: [0, 0, 0] };
+
+/** Snapshot the renderer's current scene. */
+export function captureSceneDocument(renderer: DreamRenderer, ambience: string): SceneDocument {
+  return {
+    format: SCENE_DOCUMENT_FORMAT,
+    version: SCENE_DOCUMENT_VERSION,
+    savedAt: new Date().toISOString(),
+    ambience,
+    environment: renderer.getEnvironment() ?? DEFAULT_ENVIRONMENT,
+    atmosphere: renderer.getAtmosphere(),
+    objects: renderer.getObjectStates(),
+    groups: renderer.getGroups(),
+    camera: renderer.getCameraPose(),
+    cameraPaths: renderer.getCameraPaths(),
+  };
+}
+
+export function serializeSceneDocument(doc: SceneDocument): string {
+  return JSON.stringify(doc);
+}
+
+function isRecord(raw: unknown): raw is Record<string, unknown> {
+  return !!raw && typeof raw === 'object' && !Array.isArray(raw);
+}
+
+function finiteOr(raw: unknown, fallback: number): number {
+  return typeof raw === 'number' && Number.isFinite(raw) ? raw : fallback;
+}
+
+function readTuple3(raw: unknown, fallback: [number, number, number]): [number, number, number] {
+  if (!Array.isArray(raw)) return [...fallback];
+  return [0, 1, 2].map((i) => finiteOr(raw[i], fallback[i])) as [number, number, number];
+}
+
+function readProceduralSpec(raw: Record<string, unknown>): ProceduralTextureSpec | null {
+  const colors = (value: unknown, count: number) =>
+    Array.isArray(value) && value.length === count ? value.map(normalizeColor) : null;
+  const sky = colors(raw.sky, 3);
+  const terrain = colors(raw.terrain, 2);
+  if (!sky || !terrain || [...sky, ...terrain].some((c) => c === null)) return null;
+  const unit = (value: unknown) => Math.max(0, Math.min(1, finiteOr(value, 0)));
+  return {
+    kind: 'procedural',
+    seed: finiteOr(raw.seed, 0) >>> 0,
+    sky: sky as [string, string, string],
+    terrain: terrain as [string, string],
+    stars: unit(raw.stars),
+    clouds: unit(raw.clouds),
+    roughness: unit(raw.roughness),
+    veins: unit(raw.veins),
+  };
+}
+
+function readTextureSource(raw: unknown, label: string, warnings: string[]): TextureSource | null {
+  if (raw == null || raw === '') return null;
+  if (typeof raw === 'string') return raw;
+  if (isRecord(raw) && raw.kind === 'procedural') {
+    const spec = readProceduralSpec(raw);
+    if (spec) return spec;
+  }
+  warnings.push(`${label}: unreadable image, left empty`);
+  return null;
+}
+
+function readLifetime(raw: unknown): ObjectLifetimeState {
+  const input = isRecord(raw) ? raw : {};
+  return {
+    age: Math.max(0, finiteOr(input.age, 0)),
+    // JSON has no Infinity: a never-expiring lifetime comes back as null.
+    lifetime: Math.max(0, finiteOr(input.lifetime, Infinity)),
+    dissolving: input.dissolving === true,
+  };
+}
+
+/** Camera paths with at least two keyframes; keyframes are sorted and paths renamed if their name repeats. */
+function readCameraPaths(raw: unknown, warnings: string[]): CameraPath[] {
+  const paths: CameraPath[] = [];
+  const names = new Set<string>();
+  for (const [i, entry] of (Array.isArray(raw) ? raw : []).entries()) {
+    const input = isRecord(entry) ? entry : {};
+    const keyframes: CameraKeyframe[] = (Array.isArray(input.keyframes) ? input.keyframes : [])
+      .filter(isRecord)
+      .map((k) => {
+        const pose = isRecord(k.pose) ? k.pose : {};
+        return {
+          at: Math.max(0, finiteOr(k.at, 0)),
+          pose: { position: readTuple3(pose.position, DEFAULT_CAMERA.position), rotation: readTuple3(pose.rotation, DEFAULT_CAMERA.rotation) },
+        };
+      })
+      .sort((a, b) => a.at - b.at);
+    const base = typeof input.name === 'string' && input.name.trim() ? input.name.trim() : `Path ${i + 1}`;
+    if (keyframes.length < 2) {
+      warnings.push(`Camera path "${base}": fewer than two keyframes, skipped`);
+      continue;
+    }
+    let name = base;
+    for (let n = 2; names.has(name); n++) name = `${base} (${n})`;
+    names.add(name);
+    const first = keyframes[0].at;
+    paths.push({
+      name,
+      keyframes: keyframes.map((k) => ({ ...k, at: k.at - first })),
+      easing: input.easing === 'linear' ? 'linear' : 'ease-in-out',
+    });
+  }
+  return paths;
+}
+
+/**
+ * Parse and check a scene file. Throws if it is not a scene document or was written by a newer version;
+ * repairable problems (bad colors, out-of-range values, ...) are fixed and reported in `warnings`.
+ */
+export function parseSceneDocument(text: string): { document: SceneDocument; warnings: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  if (!isRecord(raw) || raw.format !== SCENE_DOCUMENT_FORMAT) {
+    throw new Error('Not a dream scene file');
+  }
+  let version = typeof raw.version === 'number' ? raw.version : 0;
+  if (version > SCENE_DOCUMENT_VERSION) {
+    throw new Error(`Scene file version ${version} is newer than supported (${SCENE_DOCUMENT_VERSION})`);
+  }
+  let input = raw;
+  while (version < SCENE_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Scene file version ${version} is no longer supported`);
+    input = migrate(input);
+    version++;
+  }
+
+  const warnings: string[] = [];
+  const env = isRecord(input.environment) ? input.environment : {};
+  const environment: SceneEnvironment = {
+    skyColor: normalizeColor(env.skyColor) ?? DEFAULT_ENVIRONMENT.skyColor,
+    terrainColor: normalizeColor(env.terrainColor) ?? DEFAULT_ENVIRONMENT.terrainColor,
+    sky: readTextureSource(env.sky, 'Sky', warnings),
+    terrain: readTextureSource(env.terrain, 'Terrain', warnings),
+  };
+
+  // Saved objects have already drifted, so they may sit anywhere in the wrap corridor.
+  const ctx = createValidationContext(LIVE_POSITION_RANGE);
+  const objects: LiveObjectState[] = [];
+  for (const entry of Array.isArray(input.objects) ? input.objects : []) {
+    const object = validateDreamObject(isRecord(entry) ? entry.object : entry, ctx);
+    if (object) objects.push({ object, lifetime: readLifetime(isRecord(entry) ? entry.lifetime : null) });
+  }
+  const groups = validateGroups(input.groups, ctx);
+  warnings.push(...ctx.warnings);
+
+  const ambience = typeof input.ambience === 'string' ? input.ambience : '';
+  const atmosphere = validateAtmosphere(input.atmosphere, warnings)
+    ?? (ambience ? atmosphereFromAmbience(ambience) : { ...DEFAULT_ATMOSPHERE });
+
+  const camera = isRecord(input.camera) ? input.camera : {};
+  return {
+    document: {
+      format: SCENE_DOCUMENT_FORMAT,
+      version: SCENE_DOCUMENT_VERSION,
+      savedAt: typeof input.savedAt === 'string' ? input.savedAt : '',
+      ambience,
+      environment,
+      atmosphere,
+      objects,
+      groups,
+      camera: {
+        position: readTuple3(camera.position, DEFAULT_CAMERA.position),
+        rotation: readTuple3(camera.rotation, DEFAULT_CAMERA.rotation),
+      },
+      cameraPaths: readCameraPaths(input.cameraPaths, warnings),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Rebuild the renderer from a document: replaces all objects, sky/terrain, the atmosphere, the camera pose and
+ * camera paths.
+ * Point clouds are loaded before anything is cleared, so a failed or cancelled load changes nothing.
+ */
+export async function restoreSceneDocument(renderer: DreamRenderer, doc: SceneDocument, signal?: AbortSignal): Promise<void> {
+  const prepared = await renderer.prepareObjects(doc.objects.map((s) => s.object), signal);
+  const { skyColor, terrainColor, sky, terrain } = doc.environment;
+  renderer.clearObjects();
+  renderer.setSkyAndTerrain(skyColor, terrainColor, sky ?? undefined, terrain ?? undefined);
+  renderer.setAtmosphere(doc.atmosphere);
+  renderer.setCameraPose(doc.camera);
+  renderer.commitObjects(prepared);
+  for (const { object, lifetime } of doc.objects) {
+    renderer.restoreObjectLifetime(object.id, lifetime);
+  }
+  renderer.setGroups(doc.groups);
+  renderer.setCameraPaths(doc.cameraPaths);
+}
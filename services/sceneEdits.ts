@@ -0,0 +1,67 @@
+import type { ObjectSummary, SceneEditOperation } from '../types';
+import type { LayoutAdjustment } from './layoutSolver';
+import type { DreamRenderer } from './sceneService';
+
+/** Verbs that change something already in the scene. */
+const EDIT_VERBS = /\b(move|shift|push|pull|nudge|slide|raise|lower|lift|remove|delete|erase|hide|rotate|turn|spin|flip|resize|shrink|enlarge|grow|bigger|smaller|larger|taller|shorter|recolou?r|paint|colou?r)\b/;
+
+/** Lowercase words with a simple plural 's' stripped, so 'Trees' and 'tree' compare equal. */
+export function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((w) => (w.length > 3 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w));
+}
+
+/** Name and type words of an object, e.g. 'Left Side Tree' / 'sakura-tree' → left, side, tree, sakura. */
+export function objectWords(object: Pick<ObjectSummary, 'name' | 'type'>): string[] {
+  return [...new Set([...normalizeWords(object.name), ...normalizeWords(object.type)])];
+}
+
+/**
+ * Cheap check for an edit intent: an edit verb plus a reference to a live object (or "it" / "everything").
+ * Used by providers that do not classify with a model.
+ */
+export function looksLikeEdit(prompt: string, liveObjects: ObjectSummary[]): boolean {
+  if (liveObjects.length === 0) return false;
+  const text = prompt.toLowerCase();
+  if (!EDIT_VERBS.test(text)) return false;
+  const promptWords = new Set(normalizeWords(text));
+  if (['it', 'them', 'everything', 'all'].some((w) => promptWords.has(w))) return true;
+  return liveObjects.some((o) => objectWords(o).some((w) => promptWords.has(w)));
+}
+
+/**
+ * Apply validated edit operations (see validateSceneEdits) to the renderer.
+ * Added point clouds are loaded before anything changes; all operations then apply together.
+ * If `signal` aborts while loading, nothing is applied and an AbortError is thrown.
+ * Added objects go through the layout pass; returns the positions it changed.
+ */
+export async function applySceneEdits(
+  renderer: DreamRenderer,
+  operations: SceneEditOperation[],
+  signal?: AbortSignal
+): Promise<LayoutAdjustment[]> {
+  // Load added objects first, so a cancelled edit leaves the scene untouched.
+  const additions = operations.flatMap((operation) => (operation.op === 'add' ? [operation.object] : []));
+  const prepared = await renderer.prepareObjects(additions, signal);
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'remove':
+        renderer.removeObject(operation.id);
+        break;
+      case 'transform':
+        renderer.setObjectTransform(operation.id, operation);
+        break;
+      case 'recolor':
+        renderer.setObjectColor(operation.id, operation.color);
+        break;
+    }
+  }
+  const adjustments = renderer.layoutObjects(prepared);
+  if (prepared.length > 0) {
+    renderer.commitObjects(prepared);
+  }
+  return adjustments;
+}
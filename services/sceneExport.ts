@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import type { DreamObject } from '../types';
+import type { LifecyclePointsMaterial } from './lifecycleMaterial';
+
+/**
+ * Exporters for the composed point-cloud scene, for use in other tools. Only the points each object
+ * currently shows are written, at their resting positions and colored as shown: object color times vertex color.
+ */
+
+/** One object as handed over by DreamRenderer.getObjectMeshes (world matrices up to date). */
+export interface ExportableObject {
+  data: DreamObject;
+  mesh: THREE.Points;
+  /** Indices of the points drawn right now. */
+  visibleIndices: number[];
+}
+
+/** Visible points of one object: positions in the mesh's local frame and sRGB colors in 0..1. */
+function visiblePoints({ mesh, visibleIndices }: ExportableObject): { positions: Float32Array; colors: Float32Array } {
+  const geometry = mesh.geometry;
+  const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+  const color = geometry.getAttribute('color') as THREE.BufferAttribute | undefined;
+  const count = visibleIndices.length;
+  const tint = (mesh.material as LifecyclePointsMaterial).color.getRGB(new THREE.Color(), THREE.SRGBColorSpace);
+  const vertex = new THREE.Color(1, 1, 1);
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const src = visibleIndices[i];
+    positions[i * 3] = position.getX(src);
+    positions[i * 3 + 1] = position.getY(src);
+    positions[i * 3 + 2] = position.getZ(src);
+    // Point-cloud loaders store vertex colors linear; convert back to the sRGB values of the source file.
+    if (color) vertex.setRGB(color.getX(src), color.getY(src), color.getZ(src)).convertLinearToSRGB();
+    colors[i * 3] = tint.r * vertex.r;
+    colors[i * 3 + 1] = tint.g * vertex.g;
+    colors[i * 3 + 2] = tint.b * vertex.b;
+  }
+  return { positions, colors };
+}
+
+/**
+ * Merge all objects into one binary little-endian PLY: x/y/z as float in world coordinates and
+ * red/green/blue as uchar.
+ */
+export function exportScenePly(objects: ExportableObject[]): ArrayBuffer {
+  const parts = objects.map((object) => ({ ...visiblePoints(object), matrix: object.mesh.matrixWorld }));
+  const total = parts.reduce((sum, part) => sum + part.positions.length / 3, 0);
+  const header = new TextEncoder().encode(
+    [
+      'ply',
+      'format binary_little_endian 1.0',
+      'comment DreamSculpt scene export',
+      `element vertex ${total}`,
+      'property float x',
+      'property float y',
+      'property float z',
+      'property uchar red',
+      'property uchar green',
+      'property uchar blue',
+      'end_header',
+      '',
+    ].join('\n')
+  );
+  const VERTEX_BYTES = 3 * 4 + 3;
+  const buffer = new ArrayBuffer(header.length + total * VERTEX_BYTES);
+  new Uint8Array(buffer).set(header);
+  const view = new DataView(buffer);
+  const point = new THREE.Vector3();
+  const toByte = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * 255);
+  let offset = header.length;
+  for (const { positions, colors, matrix } of parts) {
+    for (let i = 0; i < positions.length; i += 3) {
+      point.fromArray(positions, i).applyMatrix4(matrix);
+      view.setFloat32(offset, point.x, true);
+      view.setFloat32(offset + 4, point.y, true);
+      view.setFloat32(offset + 8, point.z, true);
+      view.setUint8(offset + 12, toByte(colors[i]));
+      view.setUint8(offset + 13, toByte(colors[i + 1]));
+      view.setUint8(offset + 14, toByte(colors[i + 2]));
+      offset += VERTEX_BYTES;
+    }
+  }
+  return buffer;
+}
+
+/**
+ * Export the scene as binary glTF (.glb) with one named node per object (DreamObject.name), carrying its
+ * world transform, and its visible points as a POINTS primitive with vertex colors.
+ */
+export async function exportSceneGltf(objects: ExportableObject[]): Promise<ArrayBuffer> {
+  const root = new THREE.Scene();
+  root.name = 'DreamSculpt';
+  const geometries: THREE.BufferGeometry[] = [];
+  const material = new THREE.PointsMaterial({ vertexColors: true });
+  for (const object of objects) {
+    const { positions, colors } = visiblePoints(object);
+    if (positions.length === 0) continue;
+    // glTF vertex colors are linear.
+    const linear = new THREE.Color();
+    for (let i = 0; i < colors.length; i += 3) {
+      linear.setRGB(colors[i], colors[i + 1], colors[i + 2]).convertSRGBToLinear().toArray(colors, i);
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    geometries.push(geometry);
+
+    const node = new THREE.Points(geometry, material);
+    node.name = object.data.name;
+    object.mesh.matrixWorld.decompose(node.position, node.quaternion, node.scale);
+    root.add(node);
+  }
+  try {
+    return (await new GLTFExporter().parseAsync(root, { binary: true })) as ArrayBuffer;
+  } finally {
+    geometries.forEach((geometry) => geometry.dispose());
+    material.dispose();
+  }
+}
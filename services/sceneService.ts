@@ -1,45 +1,51 @@
 import * as THREE from 'three';
-import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
-import { DreamObject, SceneGraph } from '../types';
-
-// Point cloud PLY files (Vite ?url so they are served)
-import bellTowerPly from '../res/point-cloud-files/bell-tower.ply?url';
-import churchPly from '../res/point-cloud-files/church.ply?url';
-import grassPly from '../res/point-cloud-files/grass.ply?url';
-import rainbowPly from '../res/point-cloud-files/rainbow.ply?url';
-import sakuraTreePly from '../res/point-cloud-files/sakura-tree.ply?url';
-import schoolBusPly from '../res/point-cloud-files/school-bus.ply?url';
-
-/** Map object type to PLY file URL. Types matching filenames (e.g. 'sakura-tree') or aliases (e.g. 'tree') use local point clouds. */
-export const TYPE_TO_PLY: Record<string, string> = {
-  'tree': sakuraTreePly,
-  'sakura-tree': sakuraTreePly,
-  'rainbow': rainbowPly,
-  'grass': grassPly,
-  'bell-tower': bellTowerPly,
-  'church': churchPly,
-  'school-bus': schoolBusPly,
-  'bus': schoolBusPly,
-};
+import {
+  Atmosphere,
+  CameraPath,
+  CameraPose,
+  DreamObject,
+  LiveObjectState,
+  ObjectGroup,
+  ObjectLifetimeState,
+  ObjectPersistence,
+  ObjectSummary,
+  ProceduralTextureSpec,
+  SceneEnvironment,
+  SceneGraph,
+  TextureSource,
+} from '../types';
+import { assetRegistry, UpAxis } from './assetRegistry';
+import { AtmosphereLook, atmosphereLook, blendLook, DEFAULT_ATMOSPHERE, timeOfDay } from './atmosphere';
+import { CameraPathRecorder, cameraPathLength, sampleCameraPath } from './cameraPath';
+import { CommandHistory } from './commandHistory';
+import { MotionController } from './motionController';
+import { PostProcessing } from './postProcessing';
+import { getLifecycleEffect } from './lifecycleEffects';
+import { addLifecycleAttribute, LifecyclePointsMaterial } from './lifecycleMaterial';
+import { loadPointCloud } from './pointCloudLoaders';
+import { hashString, renderProceduralSky, renderProceduralTerrain } from './proceduralTextures';
+import { LayoutAdjustment, LayoutItem, LayoutView, solveLayout } from './layoutSolver';
+import { addMacroVariation, makeSeamlessTile } from './terrainTexture';
 
+/** World drift per frame at motion speed 1, and camera flight per frame in free-fly at speed 1. */
 const FORWARD_SPEED = 0.025;
+const FREE_FLY_SPEED = 0.1;
+/** Free-fly keeps the camera rig this close to the origin, inside the sky and above the terrain. */
+const FREE_FLY_MAX_DISTANCE = 300;
+const FREE_FLY_MIN_HEIGHT = -4;
 const WORLD_Z_RESPAWN = 20;
 const OBJECT_Z_WRAP = 150;
-/** Per-frame random displacement scale for diffusion. */
-const DIFFUSE_STRENGTH = 0.1;
-/** Pull back toward original position per frame (0–1) so the cloud doesn’t drift away. */
-const DIFFUSE_DAMP = 0.008;
-/** Materialize: reveal all particles over this many seconds. */
-const MATERIALIZE_DURATION = 10;
-/** Fraction of particles (0–1) that enter the diffusion phase. */
-const DIFFUSE_FRACTION = 0.1;
-/** Duration (seconds) of the diffusion phase; then those particles disappear. */
-const DIFFUSE_PHASE_DURATION = 3;
-/** Object lifetime: min and max seconds before removal starts (random per object). */
+/** Farthest z (view corridor frame) where objects are laid out; beyond it they would skip a wrap. */
+const LAYOUT_FAR_Z = WORLD_Z_RESPAWN - OBJECT_Z_WRAP;
+/** Ephemeral object lifetime: min and max seconds before removal starts (random per object). */
 const OBJECT_LIFETIME_MIN = 45;
 const OBJECT_LIFETIME_MAX = 75;
-/** During removal: fraction of total particles to hide per frame. */
-const REMOVAL_PERCENT_PER_FRAME = 0.003;
+/** Picking: max screen distance from projected bounds (fraction of viewport height); ray-to-point hit distance (world units). */
+const PICK_MAX_RADIUS = 0.08;
+const PICK_POINT_THRESHOLD = 0.5;
+/** Pin marker: world-space size and gap above the object's top. */
+const PIN_MARKER_SIZE = 1.2;
+const PIN_MARKER_GAP = 1;
 /** Orbit: yaw limit ±85°, pitch limit ±45° (radians). */
 const YAW_MIN = -(85 * Math.PI) / 180;
 const YAW_MAX = (85 * Math.PI) / 180;
@@ -50,6 +56,15 @@ const ORBIT_MAX_YAW_PER_FRAME = 0.04;
 const ORBIT_MAX_PITCH_PER_FRAME = 0.04;
 /** Dolly: max movement per frame to limit zoom speed. */
 const DOLLY_MAX_PER_FRAME = 0.15;
+/** High-resolution stills: tile size (capped by the GPU's max texture size) and max width/height. */
+const STILL_TILE_SIZE = 2048;
+export const STILL_MAX_SIZE = 8192;
+/** Seconds for the look to settle on a new atmosphere (time constant of the blend). */
+const ATMOSPHERE_BLEND_SECONDS = 1;
+/** Lights at atmosphere light intensity 1. */
+const AMBIENT_LIGHT_COLOR = 0x404040;
+const AMBIENT_LIGHT_INTENSITY = 2;
+const POINT_LIGHT_INTENSITY = 1;
 /** Default point size; highlighted object uses this multiplier. */
 const HIGHLIGHT_SIZE_MULT = 1.5;
 /** Particle size in world units (spherical/circular points to avoid square overlap). */
@@ -73,6 +88,91 @@ function createCirclePointTexture(): THREE.CanvasTexture {
   return tex;
 }
 
+/** Create a texture: a map pin (round head on a short needle), white on transparent. */
+function createPinMarkerTexture(): THREE.CanvasTexture {
+  const size = 64;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  ctx.moveTo(size * 0.38, size * 0.45);
+  ctx.lineTo(size * 0.5, size * 0.95);
+  ctx.lineTo(size * 0.62, size * 0.45);
+  ctx.fill();
+  ctx.beginPath();
+  ctx.arc(size / 2, size * 0.3, size * 0.22, 0, Math.PI * 2);
+  ctx.fill();
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/** Seconds from appearing to dissolving for a persistence mode; ephemeral objects get a random lifetime. */
+function lifetimeFor(persistence?: ObjectPersistence): number {
+  switch (persistence?.mode) {
+    case 'pinned': return Infinity;
+    case 'custom': return persistence.lifetime;
+    default: return OBJECT_LIFETIME_MIN + Math.random() * (OBJECT_LIFETIME_MAX - OBJECT_LIFETIME_MIN);
+  }
+}
+
+/** Rotate a loaded point cloud so its up axis becomes +y. */
+function orientUp(geometry: THREE.BufferGeometry, upAxis: UpAxis): void {
+  switch (upAxis) {
+    case 'x': geometry.rotateZ(Math.PI / 2); break;
+    case '-x': geometry.rotateZ(-Math.PI / 2); break;
+    case 'z': geometry.rotateX(-Math.PI / 2); break;
+    case '-z': geometry.rotateX(Math.PI / 2); break;
+    case '-y': geometry.rotateX(Math.PI); break;
+  }
+}
+
+/** Options for DreamRenderer.findClosestObjectAtScreenPoint. */
+export interface PickOptions {
+  /** Max screen distance from an object's projected bounds, as a fraction of the viewport height. */
+  maxRadius?: number;
+  /** Raycast against the points themselves (default true); otherwise pick by bounds only. */
+  raycastPoints?: boolean;
+}
+
+/** An object whose geometry is loaded but which is not in the scene yet (see prepareObjects / commitObjects). */
+export interface PreparedObject {
+  data: DreamObject;
+  geometry: THREE.BufferGeometry;
+  pointCount: number;
+  /** Factor from DreamObject scale units to mesh scale. */
+  unitScale: number;
+}
+
+/** A mesh's transform in movingWorld, so undoing a move does not also undo the world's drift. */
+export interface MeshTransform {
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+  scale: THREE.Vector3;
+}
+
+/** A selection manipulation: a move in x/y, or a rotation (radians, around y) or scale factor. */
+type Manipulation = { action: 'translate'; value: { x: number; y: number } } | { action: 'rotate' | 'scale'; value: number };
+
+const MANIPULATION_LABELS = { translate: 'Move', rotate: 'Rotate', scale: 'Scale' };
+
+/** Renderer-side state of one object in the scene. */
+interface LiveObject {
+  mesh: THREE.Points<THREE.BufferGeometry, LifecyclePointsMaterial>;
+  /** The object as requested (type, name, color, ...). Transforms live on the mesh. */
+  data: DreamObject;
+  /** Factor from DreamObject scale units to mesh scale (point clouds are normalized to 100 units). */
+  unitScale: number;
+  targetPoints: number;
+  loadedAt: number;
+  /** Seconds after loadedAt when removal starts (from data.persistence; Infinity when pinned). */
+  lifetime: number;
+  /** When the dissolve started; set when loadedAt + lifetime is reached. */
+  removalStartedAt?: number;
+}
+
 export class DreamRenderer {
   public scene: THREE.Scene;
   public camera: THREE.PerspectiveCamera;
@@ -80,24 +180,7 @@ export class DreamRenderer {
   private clock: THREE.Clock;
   private cameraRig: THREE.Group;
   private worldGroup: THREE.Group;
-  private objects: Map<string, {
-    mesh: THREE.Points;
-    targetPoints: number;
-    currentPoints: number;
-    loadedAt: number;
-    /** Random lifetime in seconds (20–30) before removal starts. */
-    lifetime: number;
-    /** When gradual removal started; set when loadedAt + lifetime is reached. */
-    removalStartedAt?: number;
-    /** During removal: number of points still visible (decreased 10% per frame). */
-    visiblePoints?: number;
-    /** When the "10% diffuse" phase started (after materialize settled). */
-    diffusionPhaseStartedAt?: number;
-    /** First vertex index of the diffusing 10% (last 10% of points). */
-    diffusingStartIndex?: number;
-    /** Snapshot of positions for the diffusing segment only (for damp). */
-    originalPositionsDiffuse?: Float32Array;
-  }> = new Map();
+  private objects: Map<string, LiveObject> = new Map();
   private terrain: THREE.Mesh | null = null;
   private sky: THREE.Mesh | null = null;
   private skyMat: THREE.MeshBasicMaterial | null = null;
@@ -107,25 +190,77 @@ export class DreamRenderer {
   private lastTerrain: THREE.Mesh | null = null;
   private lastSkyMat: THREE.MeshBasicMaterial | null = null;
   private lastTerrainMat: THREE.MeshStandardMaterial | null = null;
+  /** Sources of the current sky/terrain, kept for saving scenes. */
+  private environment: SceneEnvironment | null = null;
   private textureFadeProgress = 0; // 0..1, animated in animate()
   private readonly TEXTURE_FADE_DURATION = 2.5; // seconds
   private movingWorld: THREE.Group;
   private _forward = new THREE.Vector3();
   private _projVec = new THREE.Vector3();
   private _ndcVec = new THREE.Vector3();
+  private raycaster = new THREE.Raycaster();
+  /** The hovered or clicked object; manipulation starts from it. */
   private selectedObjectId: string | null = null;
+  /** Objects added to the selection; moved together when the selected object is one of them. */
+  private selectionSet = new Set<string>();
+  /** Persistent groups by id; a group is always selected and moved as a whole. */
+  private groups = new Map<string, ObjectGroup>();
   private readonly defaultPointSize = POINT_SIZE;
   private static circlePointTexture: THREE.CanvasTexture | null = null;
+  private static pinMarkerMaterial: THREE.SpriteMaterial | null = null;
+  /** Markers floating above pinned objects, by object id (in movingWorld, placed every frame). */
+  private pinMarkers = new Map<string, THREE.Sprite>();
   private onFpsUpdate?: (fps: number) => void;
+  /** Called when the selected object changes, or the selected object is pinned or unpinned. */
+  private onSelectionChange?: (id: string | null) => void;
   private smoothedFps = 0;
+  /** Called right after each frame is drawn, while the canvas still holds it (see onFrame). */
+  private frameListeners = new Set<() => void>();
+  /** Uniforms shared by all point materials: clock time, and half the drawing-buffer height for point sizes. */
+  private readonly timeUniform: THREE.IUniform<number> = { value: 0 };
+  private readonly pointScaleUniform: THREE.IUniform<number> = { value: 1 };
+  private readonly brightnessUniform: THREE.IUniform<number> = { value: 1 };
+  private ambientLight!: THREE.AmbientLight;
+  private pointLight!: THREE.PointLight;
+  private fog = new THREE.FogExp2(DEFAULT_ATMOSPHERE.fogColor, DEFAULT_ATMOSPHERE.fogDensity);
+  /** The atmosphere asked for, when it was set (clock time, for the day cycle), and the look blending toward it. */
+  private atmosphere: Atmosphere = DEFAULT_ATMOSPHERE;
+  private atmosphereSetAt = 0;
+  private look: AtmosphereLook = atmosphereLook(DEFAULT_ATMOSPHERE, 0);
+  private _lookTarget: AtmosphereLook = atmosphereLook(DEFAULT_ATMOSPHERE, 0);
+  private onAtmosphereUpdate?: (look: AtmosphereLook) => void;
+  /** Undo/redo: selection manipulations are recorded here (one entry per continuous gesture); callers add others. */
+  public readonly history = new CommandHistory();
+  /** Drift, pause, reverse or free-fly, and how fast. */
+  public readonly motion = new MotionController();
+  /** Bloom, depth of field, vignette and grain over the rendered scene. */
+  public readonly postProcessing: PostProcessing;
+  /** Saved camera paths by name. */
+  private cameraPaths = new Map<string, CameraPath>();
+  private pathRecorder: CameraPathRecorder | null = null;
+  /** The camera path being played; it drives the camera rig instead of orbit/dolly. */
+  private pathPlayback: { path: CameraPath; startTime: number; onEnd?: () => void } | null = null;
 
-  constructor(container: HTMLElement, options?: { onFpsUpdate?: (fps: number) => void }) {
+  constructor(
+    container: HTMLElement,
+    options?: {
+      onFpsUpdate?: (fps: number) => void;
+      onSelectionChange?: (id: string | null) => void;
+      /** Called every frame with the current atmosphere look (e.g. for overlays outside the canvas). */
+      onAtmosphereUpdate?: (look: AtmosphereLook) => void;
+    }
+  ) {
     this.onFpsUpdate = options?.onFpsUpdate;
+    this.onAtmosphereUpdate = options?.onAtmosphereUpdate;
+    this.onSelectionChange = options?.onSelectionChange;
+    this.raycaster.params.Points = { threshold: PICK_POINT_THRESHOLD };
     this.scene = new THREE.Scene();
+    this.scene.fog = this.fog;
     this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
     this.renderer.setSize(window.innerWidth, window.innerHeight);
     this.renderer.setPixelRatio(window.devicePixelRatio);
     container.appendChild(this.renderer.domElement);
+    this.updatePointScale();
 
     // Camera rig: camera position is fixed relative to the rig; orbit/dolly move the rig.
     this.cameraRig = new THREE.Group();
@@ -133,6 +268,7 @@ export class DreamRenderer {
     this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
     this.camera.position.set(0, 5, 10);
     this.cameraRig.add(this.camera);
+    this.postProcessing = new PostProcessing(this.renderer, this.scene, this.camera);
 
     // World group: moves backward each frame to simulate infinite forward motion (camera stays static).
     this.worldGroup = new THREE.Group();
@@ -147,31 +283,73 @@ export class DreamRenderer {
     window.addEventListener('resize', this.onResize.bind(this));
   }
 
+  /** Lights; their color and intensity follow the atmosphere (see updateAtmosphere). */
   private initLights() {
-    const ambientLight = new THREE.AmbientLight(0x404040, 2);
-    this.scene.add(ambientLight);
-    const pointLight = new THREE.PointLight(0xffffff, 1);
-    pointLight.position.set(10, 10, 10);
-    this.scene.add(pointLight);
+    this.ambientLight = new THREE.AmbientLight(AMBIENT_LIGHT_COLOR, AMBIENT_LIGHT_INTENSITY);
+    this.scene.add(this.ambientLight);
+    this.pointLight = new THREE.PointLight(0xffffff, POINT_LIGHT_INTENSITY);
+    this.pointLight.position.set(10, 10, 10);
+    this.scene.add(this.pointLight);
+  }
+
+  /** Blend toward a new atmosphere; a day cycle starts at its start time now. */
+  public setAtmosphere(atmosphere: Atmosphere): void {
+    this.atmosphere = atmosphere;
+    this.atmosphereSetAt = this.clock.elapsedTime;
+  }
+
+  public getAtmosphere(): Atmosphere {
+    return this.atmosphere;
+  }
+
+  /** Current time of day (0–1, 0 is midnight; 0.5 without a day cycle). */
+  public getTimeOfDay(): number {
+    return timeOfDay(this.atmosphere, this.clock.elapsedTime - this.atmosphereSetAt);
+  }
+
+  /** Blend the look toward the atmosphere at this moment of its cycle and apply it to fog, lights, sky and points. */
+  private updateAtmosphere(delta: number): void {
+    const target = atmosphereLook(this.atmosphere, this.clock.elapsedTime - this.atmosphereSetAt, this._lookTarget);
+    blendLook(this.look, target, 1 - Math.exp(-delta / ATMOSPHERE_BLEND_SECONDS));
+    const { fogColor, fogDensity, lightColor, lightIntensity, skyTint, pointBrightness } = this.look;
+    this.fog.color.copy(fogColor);
+    this.fog.density = fogDensity;
+    this.ambientLight.color.set(AMBIENT_LIGHT_COLOR).multiply(lightColor);
+    this.ambientLight.intensity = AMBIENT_LIGHT_INTENSITY * lightIntensity;
+    this.pointLight.color.copy(lightColor);
+    this.pointLight.intensity = POINT_LIGHT_INTENSITY * lightIntensity;
+    for (const material of [this.skyMat, this.lastSkyMat]) {
+      if (material?.userData.baseColor) material.color.copy(material.userData.baseColor).multiply(skyTint);
+    }
+    this.brightnessUniform.value = pointBrightness;
+    this.onAtmosphereUpdate?.(this.look);
   }
 
   private onResize() {
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.postProcessing.setSize(window.innerWidth, window.innerHeight);
+    this.updatePointScale();
+  }
+
+  private updatePointScale() {
+    this.pointScaleUniform.value = (window.innerHeight * this.renderer.getPixelRatio()) / 2;
   }
 
   /**
    * Update sky and terrain images/colors only. Does not remove or replace meshes; only updates materials.
    * If sky/terrain do not exist yet, creates them. Fade-in is animated in the render loop.
+   * Each image may be a URL or a procedural spec (drawn here).
    */
   public setSkyAndTerrain(
     skyColor: string,
     terrainColor: string,
-    skyUrl?: string,
-    terrainUrl?: string
+    sky?: TextureSource,
+    terrain?: TextureSource
   ): void {
     this.textureFadeProgress = 0;
+    this.environment = { skyColor, terrainColor, sky: sky || null, terrain: terrain || null };
 
     if (this.sky && this.skyMat) {
       this.lastSky = this.sky;
@@ -182,14 +360,19 @@ export class DreamRenderer {
     this.skyMat = new THREE.MeshBasicMaterial({
       color: skyColor,
       side: THREE.BackSide,
-      map: skyUrl ? new THREE.TextureLoader().load(skyUrl) : null,
+      map: this.loadTexture(sky, renderProceduralSky),
       transparent: true,
       opacity: 0,
+      // The sky is the backdrop the fog fades into, not something inside it.
+      fog: false,
     });
+    this.skyMat.userData.baseColor = new THREE.Color(skyColor);
     this.sky = new THREE.Mesh(skyGeo, this.skyMat);
     this.worldGroup.add(this.sky);
 
-    const terrainTex = terrainUrl ? new THREE.TextureLoader().load(terrainUrl) : null;
+    // Generated and external terrain images rarely tile, so they are made seamless. Procedural specs (including
+    // the offline provider's terrain) are drawn seamless and skip this.
+    const terrainTex = this.loadTexture(terrain, renderProceduralTerrain, makeSeamlessTile);
     if (terrainTex) {
       terrainTex.wrapS = THREE.RepeatWrapping;
       terrainTex.wrapT = THREE.RepeatWrapping;
@@ -209,53 +392,165 @@ export class DreamRenderer {
       transparent: true,
       opacity: 0,
     });
+    addMacroVariation(this.terrainMat);
     this.terrain = new THREE.Mesh(terrainGeo, this.terrainMat);
     this.terrain.rotation.x = -Math.PI / 2;
     this.worldGroup.add(this.terrain);
   }
 
   /**
-   * Add (or replace) scene objects only. Clears existing objects, then loads and adds the given list.
+   * Texture for a sky/terrain source; procedural specs are drawn with `draw`, loaded images optionally
+   * pass through `process` before upload. Empty sources give no texture.
    */
-  public async addObjects(objects: DreamObject[]): Promise<void> {
-    // this.movingWorld.clear();
-    // this.objects.clear();
-    this.selectedObjectId = null;
+  private loadTexture(
+    source: TextureSource | undefined,
+    draw: (spec: ProceduralTextureSpec) => HTMLCanvasElement,
+    process?: (image: HTMLImageElement) => HTMLCanvasElement
+  ): THREE.Texture | null {
+    if (!source) return null;
+    if (typeof source !== 'string') return new THREE.CanvasTexture(draw(source));
+    if (!process) return new THREE.TextureLoader().load(source);
+    const texture = new THREE.Texture();
+    new THREE.ImageLoader().load(
+      source,
+      (image) => {
+        texture.image = process(image);
+        texture.needsUpdate = true;
+      },
+      undefined,
+      (error) => console.warn('Texture failed to load:', error)
+    );
+    return texture;
+  }
 
-    if (objects.length === 0) return;
+  /**
+   * Load, lay out and add the given objects (replacing live objects with the same id).
+   * Returns the positions the layout pass changed.
+   */
+  public async addObjects(objects: DreamObject[]): Promise<LayoutAdjustment[]> {
+    const prepared = await this.prepareObjects(objects);
+    const adjustments = this.layoutObjects(prepared);
+    this.commitObjects(prepared);
+    return adjustments;
+  }
 
-    const plyLoader = new PLYLoader();
-    await Promise.all(objects.map((obj) => this.createPointCloudObject(obj, plyLoader)));
+  /**
+   * Load point clouds / build primitives for the given objects without adding them to the scene,
+   * so callers can show them together with other async results (see commitObjects).
+   * If `signal` aborts while loading, the loaded geometry is released and an AbortError is thrown.
+   */
+  public async prepareObjects(objects: DreamObject[], signal?: AbortSignal): Promise<PreparedObject[]> {
+    if (objects.length === 0) return [];
+    signal?.throwIfAborted();
+    const prepared = (await Promise.all(objects.map((obj) => this.preparePointCloudObject(obj, signal))))
+      .filter((p): p is PreparedObject => p !== null);
+    if (signal?.aborted) {
+      this.discardPrepared(prepared);
+      signal.throwIfAborted();
+    }
+    return prepared;
+  }
+
+  /**
+   * Move prepared objects so their bounds overlap neither each other nor live objects, and they sit in
+   * the corridor ahead of the camera with room to materialize before drifting past it.
+   * Updates each prepared object's position (view corridor frame) and returns what was moved and why.
+   */
+  public layoutObjects(prepared: PreparedObject[]): LayoutAdjustment[] {
+    if (prepared.length === 0) return [];
+    const replaced = new Set(prepared.map((p) => p.data.id));
+    const obstacles: LayoutItem[] = [];
+    for (const [id, obj] of this.objects) {
+      if (replaced.has(id) || obj.removalStartedAt != null) continue;
+      const { position } = obj.mesh;
+      const bounds = this.layoutBounds(obj.mesh.geometry, obj.mesh.rotation, obj.mesh.scale);
+      obstacles.push({
+        id,
+        name: obj.data.name,
+        position: [position.x, position.y, position.z + this.worldGroup.position.z],
+        ...bounds,
+      });
+    }
+    const items: LayoutItem[] = prepared.map(({ data, geometry, unitScale }) => ({
+      id: data.id,
+      name: data.name,
+      position: [...data.position],
+      ...this.layoutBounds(
+        geometry,
+        new THREE.Euler(...data.rotation),
+        new THREE.Vector3(...data.scale).multiplyScalar(unitScale)
+      ),
+    }));
+
+    const camera = this.camera.getWorldPosition(new THREE.Vector3());
+    const view: LayoutView = {
+      camera: [camera.x, camera.y, camera.z],
+      fov: this.camera.fov,
+      aspect: this.camera.aspect,
+      // Keep new objects ahead of the camera for as long as their entrance takes (at 60 fps).
+      minLead: Math.max(0, this.motion.worldVelocity) * FORWARD_SPEED * 60 * Math.max(0, ...prepared.map((p) => getLifecycleEffect('entrance', p.data.effects?.entrance).duration)),
+      farZ: LAYOUT_FAR_Z,
+    };
+    const { positions, adjustments } = solveLayout(items, obstacles, view);
+    prepared.forEach((p, i) => {
+      p.data = { ...p.data, position: positions[i] };
+    });
+    return adjustments;
+  }
+
+  /** Bounds of a geometry after rotation and scale, as offsets from the object's position. */
+  private layoutBounds(
+    geometry: THREE.BufferGeometry,
+    rotation: THREE.Euler,
+    scale: THREE.Vector3
+  ): Pick<LayoutItem, 'min' | 'max'> {
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    const matrix = new THREE.Matrix4().compose(new THREE.Vector3(), new THREE.Quaternion().setFromEuler(rotation), scale);
+    const box = geometry.boundingBox!.clone().applyMatrix4(matrix);
+    return { min: [box.min.x, box.min.y, box.min.z], max: [box.max.x, box.max.y, box.max.z] };
+  }
+
+  /** Release prepared objects that will not be committed. */
+  public discardPrepared(prepared: PreparedObject[]): void {
+    for (const p of prepared) p.geometry.dispose();
+  }
+
+  /** Add prepared objects to the scene; their materialize effect starts now. */
+  public commitObjects(prepared: PreparedObject[]): void {
+    // this.movingWorld.clear();
+    // this.objects.clear();
+    this.setSelectedObjectId(null);
+    for (const p of prepared) {
+      this.commitPointCloudObject(p);
+    }
   }
 
   /** Convenience: set sky/terrain and add objects in one call (same as before). */
-  public async updateScene(graph: SceneGraph, skyUrl?: string, terrainUrl?: string): Promise<void> {
-    this.setSkyAndTerrain(graph.skyColor, graph.terrainColor, skyUrl, terrainUrl);
+  public async updateScene(graph: SceneGraph, sky?: TextureSource, terrain?: TextureSource): Promise<void> {
+    this.setSkyAndTerrain(graph.skyColor, graph.terrainColor, sky, terrain);
     await this.addObjects(graph.objects);
   }
 
-  private async createPointCloudObject(data: DreamObject, plyLoader: PLYLoader): Promise<void> {
-    const plyUrl = TYPE_TO_PLY[data.type];
+  private async preparePointCloudObject(data: DreamObject, signal?: AbortSignal): Promise<PreparedObject | null> {
+    const asset = assetRegistry.get(data.type);
     let geometry: THREE.BufferGeometry;
 
     let pointCount: number;
+    let unitScale = 1;
 
-    if (plyUrl) {
-      geometry = await new Promise<THREE.BufferGeometry>((resolve, reject) => {
-        plyLoader.load(plyUrl, resolve, undefined, reject);
-      });
+    if (asset) {
+      geometry = await loadPointCloud(asset.url, { format: asset.format, signal });
+      orientUp(geometry, asset.upAxis);
 
       // Get size
       const boundingBox = new THREE.Box3().setFromObject(new THREE.Object3D().add(new THREE.Mesh(geometry)));
       const size = boundingBox.getSize(new THREE.Vector3());
       const maxSize = Math.max(size.x, size.y, size.z);
-      data.scale = [data.scale[0] / maxSize * 100, data.scale[1] / maxSize * 100, data.scale[2] / maxSize * 100] as [number, number, number];
-      console.log(plyUrl, data.scale);
+      unitScale = (100 / maxSize) * asset.defaultScale;
 
       const posAttr = geometry.getAttribute('position');
       pointCount = posAttr ? posAttr.count : 0;
-      if (pointCount === 0) return;
-      geometry.setDrawRange(0, 0);
+      if (pointCount === 0) return null;
     } else {
       let prim: THREE.BufferGeometry;
       switch (data.type) {
@@ -267,40 +562,109 @@ export class DreamRenderer {
       }
       geometry = this.generatePointsFromGeometry(prim, data.maxPoints);
       pointCount = data.maxPoints;
-      geometry.setDrawRange(0, 0);
     }
+    addLifecycleAttribute(geometry, hashString(data.id));
+    return { data, geometry, pointCount, unitScale };
+  }
 
+  private commitPointCloudObject({ data, geometry, pointCount, unitScale }: PreparedObject): void {
+    // An object with the same id may still be dissolving; replace it rather than orphan its mesh.
+    this.disposeObject(data.id);
     const hasVertexColors = geometry.getAttribute('color') != null;
     if (!DreamRenderer.circlePointTexture) {
       DreamRenderer.circlePointTexture = createCirclePointTexture();
     }
-    const material = new THREE.PointsMaterial({
+    const loadedAt = this.clock.getElapsedTime();
+    this.timeUniform.value = loadedAt;
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    const material = new LifecyclePointsMaterial({
       color: data.color,
       size: POINT_SIZE,
-      map: DreamRenderer.circlePointTexture,
-      transparent: true,
       opacity: 0.8,
-      blending: THREE.AdditiveBlending,
+      map: DreamRenderer.circlePointTexture,
       vertexColors: hasVertexColors,
-      alphaTest: 0.01,
+      effects: data.effects,
+      bounds: geometry.boundingBox!,
+      time: this.timeUniform,
+      scale: this.pointScaleUniform,
+      brightness: this.brightnessUniform,
     });
 
     const cloud = new THREE.Points(geometry, material);
-    cloud.position.set(...data.position);
-    cloud.scale.set(...data.scale);
+    // data.position is in the view corridor frame; the world has drifted since the scene started.
+    cloud.position.set(data.position[0], data.position[1], data.position[2] - this.worldGroup.position.z);
+    cloud.scale.set(...data.scale).multiplyScalar(unitScale);
     cloud.rotation.set(...data.rotation);
     cloud.userData = { id: data.id };
 
     this.movingWorld.add(cloud);
-    const loadedAt = this.clock.getElapsedTime();
-    const lifetime = OBJECT_LIFETIME_MIN + Math.random() * (OBJECT_LIFETIME_MAX - OBJECT_LIFETIME_MIN);
-    this.objects.set(data.id, {
+    const obj: LiveObject = {
       mesh: cloud,
+      data: { ...data },
+      unitScale,
       targetPoints: pointCount,
-      currentPoints: 0,
       loadedAt,
-      lifetime,
-    });
+      lifetime: lifetimeFor(data.persistence),
+    };
+    this.objects.set(data.id, obj);
+    this.updatePinMarker(obj);
+  }
+
+  /** Remove an object from the scene immediately and free its GPU resources. */
+  private disposeObject(id: string): void {
+    const obj = this.objects.get(id);
+    if (!obj) return;
+    this.movingWorld.remove(obj.mesh);
+    obj.mesh.geometry.dispose();
+    obj.mesh.material.dispose();
+    this.objects.delete(id);
+    this.removePinMarker(id);
+    this.removeFromGroups([id]);
+    this.selectionSet.delete(id);
+    if (this.selectedObjectId === id) this.selectedObjectId = null;
+    this.refreshSelection();
+  }
+
+  /** Show a marker above the object if it is pinned, and remove it otherwise. */
+  private updatePinMarker(obj: LiveObject): void {
+    if (obj.data.persistence?.mode !== 'pinned') {
+      this.removePinMarker(obj.data.id);
+      return;
+    }
+    if (this.pinMarkers.has(obj.data.id)) return;
+    if (!DreamRenderer.pinMarkerMaterial) {
+      DreamRenderer.pinMarkerMaterial = new THREE.SpriteMaterial({
+        map: createPinMarkerTexture(),
+        transparent: true,
+        opacity: 0.85,
+        depthWrite: false,
+      });
+    }
+    const marker = new THREE.Sprite(DreamRenderer.pinMarkerMaterial);
+    marker.scale.setScalar(PIN_MARKER_SIZE);
+    this.pinMarkers.set(obj.data.id, marker);
+    this.movingWorld.add(marker);
+  }
+
+  private removePinMarker(id: string): void {
+    const marker = this.pinMarkers.get(id);
+    if (!marker) return;
+    this.movingWorld.remove(marker);
+    this.pinMarkers.delete(id);
+  }
+
+  /** Keep each pin marker just above the top center of its object. */
+  private placePinMarkers(): void {
+    for (const [id, marker] of this.pinMarkers) {
+      const obj = this.objects.get(id);
+      const box = obj?.mesh.geometry.boundingBox;
+      if (!obj || !box) continue;
+      obj.mesh.updateMatrix();
+      marker.position
+        .set((box.min.x + box.max.x) / 2, box.max.y, (box.min.z + box.max.z) / 2)
+        .applyMatrix4(obj.mesh.matrix);
+      marker.position.y += PIN_MARKER_GAP + PIN_MARKER_SIZE / 2;
+    }
   }
 
   private generatePointsFromGeometry(geo: THREE.BufferGeometry, count: number): THREE.BufferGeometry {
@@ -332,7 +696,305 @@ export class DreamRenderer {
     }
   }
 
+  /**
+   * Live objects with their current transforms. Positions are in the view corridor frame used by
+   * DreamObject.position (world drift removed), scales in DreamObject units.
+   */
+  public getObjectSummaries(): ObjectSummary[] {
+    const summaries: ObjectSummary[] = [];
+    for (const [id, obj] of this.objects) {
+      if (obj.removalStartedAt != null) continue;
+      const { position, rotation, scale } = obj.mesh;
+      summaries.push({
+        id,
+        name: obj.data.name,
+        type: obj.data.type,
+        position: [position.x, position.y, position.z + this.worldGroup.position.z],
+        rotation: [rotation.x, rotation.y, rotation.z],
+        scale: [scale.x / obj.unitScale, scale.y / obj.unitScale, scale.z / obj.unitScale],
+        color: obj.data.color,
+      });
+    }
+    return summaries;
+  }
+
+  /** Set any of position (view corridor frame), rotation and scale (DreamObject units) of an object. */
+  public setObjectTransform(
+    id: string,
+    transform: Partial<Pick<DreamObject, 'position' | 'rotation' | 'scale'>>
+  ): void {
+    const obj = this.objects.get(id);
+    if (!obj) return;
+    if (transform.position) {
+      const [x, y, z] = transform.position;
+      obj.mesh.position.set(x, y, z - this.worldGroup.position.z);
+    }
+    if (transform.rotation) obj.mesh.rotation.set(...transform.rotation);
+    if (transform.scale) obj.mesh.scale.set(...transform.scale).multiplyScalar(obj.unitScale);
+  }
+
+  /** Change an object's base color (vertex colors, if any, are kept and tinted). */
+  public setObjectColor(id: string, color: string): void {
+    const obj = this.objects.get(id);
+    if (!obj) return;
+    obj.data.color = color;
+    obj.mesh.material.color.set(color);
+  }
+
+  /**
+   * Every live object's mesh (in movingWorld) with its data and the indices of the points its lifecycle
+   * effects draw now; world matrices are updated. For exporters.
+   */
+  public getObjectMeshes(): { data: DreamObject; mesh: THREE.Points; visibleIndices: number[] }[] {
+    this.scene.updateMatrixWorld();
+    const now = this.clock.elapsedTime;
+    return [...this.objects.values()].map((obj) => ({
+      data: obj.data,
+      mesh: obj.mesh,
+      visibleIndices: obj.mesh.material.visibleIndices(obj.mesh.geometry, now),
+    }));
+  }
+
+  /** What setSkyAndTerrain was last given, or null if it was never called. */
+  public getEnvironment(): SceneEnvironment | null {
+    return this.environment;
+  }
+
+  /**
+   * Every live object (dissolving ones included) with its live transform in the view corridor frame,
+   * current color and lifetime state.
+   */
+  public getObjectStates(): LiveObjectState[] {
+    const now = this.clock.elapsedTime;
+    const states: LiveObjectState[] = [];
+    for (const obj of this.objects.values()) {
+      const { position, rotation, scale } = obj.mesh;
+      states.push({
+        object: {
+          ...obj.data,
+          position: [position.x, position.y, position.z + this.worldGroup.position.z],
+          rotation: [rotation.x, rotation.y, rotation.z],
+          scale: [scale.x / obj.unitScale, scale.y / obj.unitScale, scale.z / obj.unitScale],
+        },
+        lifetime: {
+          age: now - obj.loadedAt,
+          lifetime: obj.lifetime,
+          dissolving: obj.removalStartedAt != null,
+        },
+      });
+    }
+    return states;
+  }
+
+  /**
+   * Resume a committed object's lifetime from a saved state: materialize progress follows its age,
+   * and a dissolving object starts dissolving again.
+   */
+  public restoreObjectLifetime(id: string, state: ObjectLifetimeState): void {
+    const obj = this.objects.get(id);
+    if (!obj) return;
+    const now = this.clock.elapsedTime;
+    obj.loadedAt = now - state.age;
+    obj.lifetime = state.dissolving ? Math.min(state.age, state.lifetime) : state.lifetime;
+    obj.mesh.material.reveal(obj.loadedAt);
+  }
+
+  /** Remove all objects immediately, without the dissolve effect. */
+  public clearObjects(): void {
+    for (const id of [...this.objects.keys()]) this.disposeObject(id);
+    this.groups.clear();
+    this.clearSelection();
+  }
+
+  /** How long an object stays (ephemeral unless set), or null if there is no such object. */
+  public getObjectPersistence(id: string): ObjectPersistence | null {
+    const obj = this.objects.get(id);
+    if (!obj) return null;
+    return obj.data.persistence ?? { mode: 'ephemeral' };
+  }
+
+  /**
+   * Change how long an object stays. Pinning (or a custom lifetime it has not reached yet) also stops a dissolve
+   * in progress; an object made ephemeral again gets a fresh random lifetime from now.
+   */
+  public setObjectPersistence(id: string, persistence: ObjectPersistence): void {
+    const obj = this.objects.get(id);
+    if (!obj) return;
+    const now = this.clock.elapsedTime;
+    obj.data = { ...obj.data, persistence };
+    obj.lifetime = lifetimeFor(persistence);
+    if (persistence.mode === 'ephemeral') obj.lifetime += now - obj.loadedAt;
+    if (obj.removalStartedAt != null && now - obj.loadedAt < obj.lifetime) {
+      obj.removalStartedAt = undefined;
+      obj.mesh.material.stay();
+    }
+    this.updatePinMarker(obj);
+    if (this.getSelectedObjectIds().includes(id)) this.onSelectionChange?.(this.selectedObjectId);
+  }
+
+  /** Orbit/dolly pose of the camera rig. */
+  public getCameraPose(): CameraPose {
+    const { position, rotation } = this.cameraRig;
+    return { position: [position.x, position.y, position.z], rotation: [rotation.x, rotation.y, rotation.z] };
+  }
+
+  public setCameraPose(pose: CameraPose): void {
+    this.cameraRig.position.set(...pose.position);
+    this.cameraRig.rotation.set(
+      Math.max(PITCH_MIN, Math.min(PITCH_MAX, pose.rotation[0])),
+      Math.max(YAW_MIN, Math.min(YAW_MAX, pose.rotation[1])),
+      pose.rotation[2]
+    );
+  }
+
+  /**
+   * Start recording a camera path. With `fromGestures`, the pose is sampled as the camera moves; either way
+   * addCameraKeyframe places a keyframe at the current pose. Stops any playback.
+   */
+  public startCameraRecording(fromGestures: boolean): void {
+    this.stopCameraPath();
+    this.pathRecorder = new CameraPathRecorder(this.clock.elapsedTime, fromGestures);
+    this.pathRecorder.addKeyframe(this.getCameraPose(), this.clock.elapsedTime);
+  }
+
+  public isRecordingCameraPath(): boolean {
+    return this.pathRecorder !== null;
+  }
+
+  /** Add a keyframe at the current pose to the recording; returns how many it has (0 when not recording). */
+  public addCameraKeyframe(): number {
+    if (!this.pathRecorder) return 0;
+    this.pathRecorder.addKeyframe(this.getCameraPose(), this.clock.elapsedTime);
+    return this.pathRecorder.keyframeCount;
+  }
+
+  /**
+   * Stop recording and save the path under `name` (replacing a path of that name); a null name discards it.
+   * Returns the saved path, or null if none was saved (discarded, or fewer than two keyframes).
+   */
+  public stopCameraRecording(name: string | null): CameraPath | null {
+    const recorder = this.pathRecorder;
+    this.pathRecorder = null;
+    if (!recorder || name === null) return null;
+    if (recorder.fromGestures) recorder.addKeyframe(this.getCameraPose(), this.clock.elapsedTime);
+    const path = recorder.finish(name);
+    if (path) this.cameraPaths.set(name, path);
+    return path;
+  }
+
+  /** Saved camera paths, in the order they were saved. */
+  public getCameraPaths(): CameraPath[] {
+    return [...this.cameraPaths.values()];
+  }
+
+  /** Replace all saved camera paths (e.g. from a scene file). */
+  public setCameraPaths(paths: CameraPath[]): void {
+    this.stopCameraPath();
+    this.cameraPaths = new Map(paths.map((p) => [p.name, p]));
+  }
+
+  public deleteCameraPath(name: string): void {
+    if (this.pathPlayback?.path.name === name) this.stopCameraPath();
+    this.cameraPaths.delete(name);
+  }
+
+  /**
+   * Fly the camera along a saved path, from its first pose, at the pace it was recorded in whatever the motion
+   * mode; orbit, dolly and free-flight are ignored until it ends or is stopped. `onEnd` is called either way. Returns false if there is no such path.
+   */
+  public playCameraPath(name: string, onEnd?: () => void): boolean {
+    const path = this.cameraPaths.get(name);
+    if (!path) return false;
+    this.stopCameraPath();
+    this.pathRecorder = null;
+    this.pathPlayback = { path, startTime: this.clock.elapsedTime, onEnd };
+    this.setCameraPose(path.keyframes[0].pose);
+    return true;
+  }
+
+  public stopCameraPath(): void {
+    const playback = this.pathPlayback;
+    this.pathPlayback = null;
+    playback?.onEnd?.();
+  }
+
+  public isPlayingCameraPath(): boolean {
+    return this.pathPlayback !== null;
+  }
+
+  /**
+   * Call `listener` right after every frame is drawn, while the canvas still holds it (e.g. to copy it for video).
+   * Returns an unsubscribe function.
+   */
+  public onFrame(listener: () => void): () => void {
+    this.frameListeners.add(listener);
+    return () => this.frameListeners.delete(listener);
+  }
+
+  /**
+   * Render the current view at `width` × `height` pixels (up to STILL_MAX_SIZE), larger than the window if
+   * need be: the frame is drawn in tiles into an offscreen render target and stitched on a 2D canvas.
+   * Points keep their size relative to the frame height. Post-processing is left out: bloom and blur would not
+   * line up across tile edges.
+   */
+  public renderStill(width: number, height: number): HTMLCanvasElement {
+    width = Math.max(1, Math.min(STILL_MAX_SIZE, Math.round(width)));
+    height = Math.max(1, Math.min(STILL_MAX_SIZE, Math.round(height)));
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const ctx = output.getContext('2d');
+    if (!ctx) throw new Error('Could not create a canvas for the still');
+    const tileSize = Math.min(STILL_TILE_SIZE, this.renderer.capabilities.maxTextureSize);
+    const target = new THREE.WebGLRenderTarget(tileSize, tileSize);
+    const pixels = new Uint8Array(tileSize * tileSize * 4);
+    const aspect = this.camera.aspect;
+    const pointScale = this.pointScaleUniform.value;
+    this.camera.aspect = width / height;
+    this.pointScaleUniform.value = height / 2;
+    try {
+      for (let y = 0; y < height; y += tileSize) {
+        for (let x = 0; x < width; x += tileSize) {
+          const w = Math.min(tileSize, width - x);
+          const h = Math.min(tileSize, height - y);
+          this.camera.setViewOffset(width, height, x, y, w, h);
+          target.setSize(w, h);
+          this.renderer.setRenderTarget(target);
+          this.renderer.render(this.scene, this.camera);
+          this.renderer.readRenderTargetPixels(target, 0, 0, w, h, pixels);
+          // Render targets are read bottom row first.
+          const image = ctx.createImageData(w, h);
+          for (let row = 0; row < h; row++) {
+            image.data.set(pixels.subarray((h - 1 - row) * w * 4, (h - row) * w * 4), row * w * 4);
+          }
+          ctx.putImageData(image, x, y);
+        }
+      }
+    } finally {
+      this.renderer.setRenderTarget(null);
+      this.camera.clearViewOffset();
+      this.camera.aspect = aspect;
+      this.camera.updateProjectionMatrix();
+      this.pointScaleUniform.value = pointScale;
+      target.dispose();
+    }
+    return output;
+  }
+
+  /** Start the dissolve of an object now instead of at the end of its lifetime. */
+  public removeObject(id: string): void {
+    const obj = this.objects.get(id);
+    if (!obj || obj.removalStartedAt != null) return;
+    obj.lifetime = Math.min(obj.lifetime, this.clock.elapsedTime - obj.loadedAt);
+  }
+
+  /** Remove an object at once, without its exit effect (e.g. taking back a cancelled generation). */
+  public deleteObject(id: string): void {
+    this.disposeObject(id);
+  }
+
   public orbitCamera(yaw: number, pitch: number) {
+    if (this.pathPlayback) return;
     const clampedYaw = Math.max(-ORBIT_MAX_YAW_PER_FRAME, Math.min(ORBIT_MAX_YAW_PER_FRAME, yaw));
     const clampedPitch = Math.max(-ORBIT_MAX_PITCH_PER_FRAME, Math.min(ORBIT_MAX_PITCH_PER_FRAME, pitch));
     this.cameraRig.rotation.y = Math.max(YAW_MIN, Math.min(YAW_MAX, this.cameraRig.rotation.y + clampedYaw));
@@ -340,82 +1002,308 @@ export class DreamRenderer {
   }
 
   public dollyCamera(delta: number) {
+    if (this.pathPlayback) return;
     const clamped = Math.max(-DOLLY_MAX_PER_FRAME, Math.min(DOLLY_MAX_PER_FRAME, delta));
     this.camera.getWorldDirection(this._forward).negate();
     this.cameraRig.position.addScaledVector(this._forward, clamped);
   }
 
-  /** Set which object is selected; updates highlight (point size). Pass null to clear. */
+  /** Set which object is selected (hovered or clicked); the selection set stays. Pass null to clear. */
   public setSelectedObjectId(id: string | null): void {
     if (this.selectedObjectId === id) return;
-    if (this.selectedObjectId) {
-      const prev = this.objects.get(this.selectedObjectId);
-      if (prev?.mesh.material instanceof THREE.PointsMaterial) {
-        prev.mesh.material.size = this.defaultPointSize;
-      }
-    }
     this.selectedObjectId = id;
-    if (id) {
-      const obj = this.objects.get(id);
-      if (obj?.mesh.material instanceof THREE.PointsMaterial) {
-        obj.mesh.material.size = this.defaultPointSize * HIGHLIGHT_SIZE_MULT;
-      }
-    }
+    this.refreshSelection();
   }
-      
+
   public getSelectedObjectId(): string | null {
     return this.selectedObjectId;
   }
 
+  /** Add an object (with its group) to the selection set, or take it out if it is already in. */
+  public toggleInSelection(id: string): void {
+    if (!this.objects.has(id)) return;
+    const ids = this.withGroups([id]);
+    const remove = ids.every((i) => this.selectionSet.has(i));
+    ids.forEach((i) => (remove ? this.selectionSet.delete(i) : this.selectionSet.add(i)));
+    this.refreshSelection();
+  }
+
+  /** Empty the selection set and clear the selected object. */
+  public clearSelection(): void {
+    this.selectionSet.clear();
+    this.selectedObjectId = null;
+    this.refreshSelection();
+  }
+
+  /**
+   * Objects that manipulation acts on: the selected object with its group, or the whole selection set
+   * (groups included) if the selected object is in it. Empty when nothing is selected.
+   */
+  public getSelectedObjectIds(): string[] {
+    const id = this.selectedObjectId;
+    if (!id || !this.objects.has(id)) return [];
+    return this.withGroups(this.selectionSet.has(id) ? [...this.selectionSet] : [id]);
+  }
+
   /**
-   * Find the object whose screen projection is closest to normalized (0–1) screen point.
-   * Uses camera and movingWorld children; returns object id or null.
+   * Translate, rotate (around y) or scale every selected object around their shared pivot (the mean of their
+   * positions), like manipulateObject does for one object. Recorded in `history`.
    */
-  public findClosestObjectAtScreenPoint(normalizedX: number, normalizedY: number): string | null {
-    const children = this.movingWorld.children;
-    if (children.length === 0) return null;
+  public manipulateSelection(action: 'translate', value: { x: number; y: number }): void;
+  public manipulateSelection(action: 'rotate' | 'scale', value: number): void;
+  public manipulateSelection(action: Manipulation['action'], value: Manipulation['value']): void {
+    const change = { action, value } as Manipulation;
+    const ids = this.getSelectedObjectIds();
+    const meshes = ids.map((id) => this.objects.get(id)!.mesh);
+    const unchanged = change.action === 'translate'
+      ? !change.value.x && !change.value.y
+      : change.action === 'rotate' ? !change.value : change.value === 1;
+    if (meshes.length === 0 || unchanged) return;
+    const before = this.captureTransforms(ids);
+    const pivot = new THREE.Vector3();
+    meshes.forEach((mesh) => pivot.add(mesh.position));
+    pivot.divideScalar(meshes.length);
+    const offset = new THREE.Vector3();
+    const up = new THREE.Vector3(0, 1, 0);
+    for (const mesh of meshes) {
+      if (change.action === 'translate') {
+        mesh.position.x += change.value.x;
+        mesh.position.y += change.value.y;
+      } else if (change.action === 'rotate') {
+        offset.subVectors(mesh.position, pivot).applyAxisAngle(up, change.value);
+        mesh.position.copy(pivot).add(offset);
+        mesh.rotation.y += change.value;
+      } else {
+        offset.subVectors(mesh.position, pivot).multiplyScalar(change.value);
+        mesh.position.copy(pivot).add(offset);
+        mesh.scale.multiplyScalar(change.value);
+      }
+    }
+    const after = this.captureTransforms(ids);
+    const name = ids.length === 1 ? this.objects.get(ids[0])!.data.name : `${ids.length} objects`;
+    // Every frame of a gesture pushes; frames of the same action on the same objects merge into one entry.
+    this.history.push(
+      {
+        label: `${MANIPULATION_LABELS[action]} ${name}`,
+        undo: () => this.restoreTransforms(before),
+        redo: () => this.restoreTransforms(after),
+      },
+      `${action}:${ids.join(',')}`
+    );
+  }
+
+  /** Current transforms of the given objects, for restoreTransforms (e.g. to undo a change). */
+  public captureTransforms(ids: string[]): Map<string, MeshTransform> {
+    const transforms = new Map<string, MeshTransform>();
+    for (const id of ids) {
+      const mesh = this.objects.get(id)?.mesh;
+      if (mesh) transforms.set(id, { position: mesh.position.clone(), rotation: mesh.rotation.clone(), scale: mesh.scale.clone() });
+    }
+    return transforms;
+  }
+
+  /** Put back captured transforms; objects gone since are skipped. */
+  public restoreTransforms(transforms: Map<string, MeshTransform>): void {
+    for (const [id, { position, rotation, scale }] of transforms) {
+      const mesh = this.objects.get(id)?.mesh;
+      if (!mesh) continue;
+      mesh.position.copy(position);
+      mesh.rotation.copy(rotation);
+      mesh.scale.copy(scale);
+    }
+  }
+
+  /** Highlight (point size) the selection set and the objects manipulation acts on, then notify. */
+  private refreshSelection(): void {
+    const highlighted = new Set([...this.selectionSet, ...this.getSelectedObjectIds()]);
+    for (const [id, obj] of this.objects) {
+      obj.mesh.material.size = this.defaultPointSize * (highlighted.has(id) ? HIGHLIGHT_SIZE_MULT : 1);
+    }
+    this.onSelectionChange?.(this.selectedObjectId);
+  }
+
+  /** `ids` plus every other member of their groups. */
+  private withGroups(ids: string[]): string[] {
+    const out = new Set(ids);
+    for (const group of this.groups.values()) {
+      if (group.memberIds.some((m) => out.has(m))) group.memberIds.forEach((m) => out.add(m));
+    }
+    return [...out];
+  }
+
+  /** Live groups with their members. */
+  public getGroups(): ObjectGroup[] {
+    return [...this.groups.values()].map((g) => ({ ...g, memberIds: [...g.memberIds] }));
+  }
+
+  /** The group an object belongs to, if any. */
+  public getGroupOf(id: string): ObjectGroup | null {
+    for (const group of this.groups.values()) {
+      if (group.memberIds.includes(id)) return { ...group, memberIds: [...group.memberIds] };
+    }
+    return null;
+  }
+
+  /**
+   * Add groups (e.g. from a scene graph). Members that are not live objects are ignored, members move out of any
+   * group they were in, and a group with the id of an existing one replaces it.
+   */
+  public addGroups(groups: ObjectGroup[]): void {
+    for (const group of groups) {
+      const memberIds = group.memberIds.filter((id) => this.objects.has(id));
+      this.groups.delete(group.id);
+      this.removeFromGroups(memberIds);
+      if (memberIds.length >= 2) this.groups.set(group.id, { ...group, memberIds });
+    }
+    this.refreshSelection();
+  }
+
+  /** Replace all groups. */
+  public setGroups(groups: ObjectGroup[]): void {
+    this.groups.clear();
+    this.addGroups(groups);
+  }
+
+  /** Group the given objects (and the groups they are in) into a new group; null if fewer than two objects. */
+  public groupObjects(ids: string[], name?: string): ObjectGroup | null {
+    const memberIds = this.withGroups(ids).filter((id) => this.objects.has(id));
+    if (memberIds.length < 2) return null;
+    let n = this.groups.size + 1;
+    while (this.groups.has(`group_${String(n).padStart(2, '0')}`)) n++;
+    const group: ObjectGroup = {
+      id: `group_${String(n).padStart(2, '0')}`,
+      name: name ?? `${this.objects.get(memberIds[0])!.data.name} group`,
+      memberIds,
+    };
+    this.addGroups([group]);
+    return group;
+  }
+
+  /** Dissolve every group that contains one of `ids`; the objects stay. */
+  public ungroupObjects(ids: string[]): void {
+    for (const [groupId, group] of this.groups) {
+      if (group.memberIds.some((m) => ids.includes(m))) this.groups.delete(groupId);
+    }
+    this.refreshSelection();
+  }
+
+  /** Take objects out of their groups, dropping groups left with fewer than two members. */
+  private removeFromGroups(ids: string[]): void {
+    for (const [groupId, group] of this.groups) {
+      const memberIds = group.memberIds.filter((m) => !ids.includes(m));
+      if (memberIds.length === group.memberIds.length) continue;
+      if (memberIds.length < 2) this.groups.delete(groupId);
+      else this.groups.set(groupId, { ...group, memberIds });
+    }
+  }
+
+  /**
+   * Object at a screen point (normalized 0–1, y down), or null if none is within `maxRadius`. Candidates are
+   * objects whose projected bounding box contains the point or lies within the radius; a raycast against their
+   * visible points picks the front-most one actually under the pointer, and otherwise the nearest box wins
+   * (front-most among boxes containing the point).
+   */
+  public findClosestObjectAtScreenPoint(normalizedX: number, normalizedY: number, options: PickOptions = {}): string | null {
+    const { maxRadius = PICK_MAX_RADIUS, raycastPoints = true } = options;
+    if (this.objects.size === 0) return null;
+    this.scene.updateMatrixWorld();
     const camera = this.camera;
-    let bestId: string | null = null;
-    let bestDistSq = Infinity;
+    const aspect = camera.aspect;
+    const cameraPosition = camera.getWorldPosition(new THREE.Vector3());
     // NDC: x,y in [-1,1], y up in NDC
-    const targetX = normalizedX * 2 - 1;
-    const targetY = 1 - normalizedY * 2;
-    for (const child of children) {
-      const id = (child.userData as { id?: string }).id;
-      if (!id) continue;
-      child.getWorldPosition(this._projVec);
-      this._projVec.project(camera);
-      const dx = this._projVec.x - targetX;
-      const dy = this._projVec.y - targetY;
-      const d2 = dx * dx + dy * dy;
-      if (d2 < bestDistSq) {
-        bestDistSq = d2;
-        bestId = id;
+    const target = new THREE.Vector2(normalizedX * 2 - 1, 1 - normalizedY * 2);
+    const candidates: { obj: LiveObject; gap: number; depth: number }[] = [];
+    const box = new THREE.Box3();
+    const corner = this._projVec;
+    for (const obj of this.objects.values()) {
+      if (obj.removalStartedAt != null) continue;
+      const bounds = obj.mesh.geometry.boundingBox;
+      if (!bounds) continue;
+      box.copy(bounds).applyMatrix4(obj.mesh.matrixWorld);
+      const rect = this.projectBox(box);
+      if (!rect) continue;
+      // Gap between the point and the box on screen, in fractions of the viewport height.
+      const gapX = Math.max(rect.min.x - target.x, 0, target.x - rect.max.x) * aspect / 2;
+      const gapY = Math.max(rect.min.y - target.y, 0, target.y - rect.max.y) / 2;
+      const gap = Math.hypot(gapX, gapY);
+      if (gap > maxRadius) continue;
+      candidates.push({ obj, gap, depth: box.getCenter(corner).distanceTo(cameraPosition) });
+    }
+    if (candidates.length === 0) return null;
+
+    if (raycastPoints) {
+      this.raycaster.setFromCamera(target, camera);
+      const now = this.clock.elapsedTime;
+      const hits = this.raycaster.intersectObjects(candidates.map((c) => c.obj.mesh), false);
+      for (const hit of hits) {
+        const mesh = hit.object as LiveObject['mesh'];
+        if (hit.index != null && mesh.material.showsIndex(mesh.geometry, hit.index, now)) {
+          return (mesh.userData as { id: string }).id;
+        }
       }
     }
-    return bestId;
+    candidates.sort((a, b) => a.gap - b.gap || a.depth - b.depth);
+    return candidates[0].obj.data.id;
+  }
+
+  /** Screen rectangle (NDC) covered by a world-space box, or null if it is entirely behind the camera. */
+  private projectBox(box: THREE.Box3): THREE.Box2 | null {
+    const rect = new THREE.Box2();
+    const corner = new THREE.Vector3();
+    const inView = new THREE.Vector3();
+    let inFront = 0;
+    for (let i = 0; i < 8; i++) {
+      corner.set(i & 1 ? box.max.x : box.min.x, i & 2 ? box.max.y : box.min.y, i & 4 ? box.max.z : box.min.z);
+      inView.copy(corner).applyMatrix4(this.camera.matrixWorldInverse);
+      // Corners behind the camera would project mirrored; a box crossing the camera plane covers the whole view.
+      if (inView.z >= -this.camera.near) continue;
+      inFront++;
+      corner.project(this.camera);
+      rect.expandByPoint(new THREE.Vector2(corner.x, corner.y));
+    }
+    if (inFront === 0) return null;
+    if (inFront < 8) rect.union(new THREE.Box2(new THREE.Vector2(-1, -1), new THREE.Vector2(1, 1)));
+    return rect;
   }
 
   /**
-   * Restart the materialize effect for an object (reset visible points so they re-reveal over MATERIALIZE_DURATION).
+   * Restart an object's entrance effect; its idle effect starts over afterwards.
    */
   public triggerDiffuse(objectId: string): void {
     const obj = this.objects.get(objectId);
     if (!obj) return;
-    obj.currentPoints = 0;
-    obj.diffusionPhaseStartedAt = undefined;
-    obj.diffusingStartIndex = undefined;
-    obj.originalPositionsDiffuse = undefined;
-    obj.mesh.geometry.setDrawRange(0, 0);
+    obj.mesh.material.reveal(this.clock.elapsedTime);
+  }
+
+  /** View depth of the selected object's center, for depth of field; null if nothing is selected in front. */
+  private selectionFocusDistance(): number | null {
+    const obj = this.selectedObjectId ? this.objects.get(this.selectedObjectId) : undefined;
+    const bounds = obj?.mesh.geometry.boundingBox;
+    if (!obj || !bounds) return null;
+    const center = bounds.getCenter(this._projVec).applyMatrix4(obj.mesh.matrixWorld).applyMatrix4(this.camera.matrixWorldInverse);
+    return center.z < 0 ? -center.z : null;
+  }
+
+  /** Move the camera along the playing path, or sample the pose into the recording. */
+  private updateCameraPath(): void {
+    const now = this.clock.elapsedTime;
+    const playback = this.pathPlayback;
+    if (!playback) {
+      this.pathRecorder?.sample(this.getCameraPose(), now);
+      return;
+    }
+    const along = now - playback.startTime;
+    this.setCameraPose(sampleCameraPath(playback.path, along));
+    if (along >= cameraPathLength(playback.path)) this.stopCameraPath();
   }
 
   private animate() {
     requestAnimationFrame(this.animate.bind(this));
     const delta = this.clock.getDelta();
-    if (this.onFpsUpdate && delta > 0) {
+    if (delta > 0) {
       const instantFps = 1 / delta;
       this.smoothedFps = this.smoothedFps ? this.smoothedFps * 0.85 + instantFps * 0.15 : instantFps;
-      this.onFpsUpdate(Math.round(this.smoothedFps));
+      this.onFpsUpdate?.(Math.round(this.smoothedFps));
     }
     // Crossfade: fade out old sky/terrain, fade in new
     const hasTransition = this.textureFadeProgress < 1 && (this.skyMat || this.terrainMat || this.lastSkyMat || this.lastTerrainMat);
@@ -431,6 +1319,7 @@ export class DreamRenderer {
         if (this.lastSky) {
           this.worldGroup.remove(this.lastSky);
           this.lastSky.geometry?.dispose();
+          this.lastSkyMat?.map?.dispose();
           this.lastSkyMat?.dispose();
           this.lastSky = null;
           this.lastSkyMat = null;
@@ -438,6 +1327,7 @@ export class DreamRenderer {
         if (this.lastTerrain) {
           this.worldGroup.remove(this.lastTerrain);
           this.lastTerrain.geometry?.dispose();
+          this.lastTerrainMat?.map?.dispose();
           this.lastTerrainMat?.dispose();
           this.lastTerrain = null;
           this.lastTerrainMat = null;
@@ -445,109 +1335,48 @@ export class DreamRenderer {
       }
     }
 
-    // Simulated forward motion: camera is static; the world moves backward.
+    // Simulated forward motion: the world moves toward the camera (or away, in reverse); in free-fly the world
+    // stands still and the camera rig flies where it looks.
+    const motion = this.motion.update(delta);
     if (this.worldGroup) {
-      this.worldGroup.position.z += FORWARD_SPEED;
+      this.worldGroup.position.z += FORWARD_SPEED * motion.world;
       this.movingWorld.children.forEach((child) => {
         const worldZ = this.worldGroup.position.z + child.position.z;
         if (worldZ > WORLD_Z_RESPAWN) {
           child.position.z -= OBJECT_Z_WRAP;
+        } else if (worldZ < WORLD_Z_RESPAWN - OBJECT_Z_WRAP) {
+          child.position.z += OBJECT_Z_WRAP;
         }
       });
     }
-
-    const now = this.clock.getElapsedTime();
-
-    // Phase 1: Materialize — gradually show all particles over MATERIALIZE_DURATION (10 seconds)
-    this.objects.forEach((obj) => {
-      if (obj.currentPoints < obj.targetPoints) {
-        const rate = obj.targetPoints / MATERIALIZE_DURATION;
-        obj.currentPoints = Math.min(obj.targetPoints, obj.currentPoints + rate * delta);
-        obj.mesh.geometry.setDrawRange(0, Math.floor(obj.currentPoints));
-      }
-    });
-
-    // Phase 2 & 3: After settled, 10% of particles diffuse for DIFFUSE_PHASE_DURATION (3s), then disappear
-    for (const [, obj] of this.objects.entries()) {
-      const geo = obj.mesh.geometry;
-      const posAttr = geo.getAttribute('position') as THREE.BufferAttribute;
-      if (!posAttr || posAttr.count === 0) continue;
-
-      const count = obj.targetPoints;
-      const settled = obj.currentPoints >= count;
-
-      // Start diffusion phase when materialize has just settled (10% = last 10% of vertex indices)
-      if (settled && obj.diffusionPhaseStartedAt == null) {
-        obj.diffusionPhaseStartedAt = now;
-        obj.diffusingStartIndex = Math.floor((1 - DIFFUSE_FRACTION) * count);
-        const start = obj.diffusingStartIndex * 3;
-        const len = (count - obj.diffusingStartIndex) * 3;
-        const arr0 = posAttr.array as Float32Array;
-        obj.originalPositionsDiffuse = arr0.slice(start, start + len);
-      }
-
-      if (obj.diffusionPhaseStartedAt == null || obj.diffusingStartIndex == null) continue;
-
-      const elapsed = now - obj.diffusionPhaseStartedAt;
-
-      // After 3 seconds: hide the diffusing 10% (they disappear)
-      if (elapsed >= DIFFUSE_PHASE_DURATION) {
-        obj.mesh.geometry.setDrawRange(0, obj.diffusingStartIndex);
-        obj.diffusionPhaseStartedAt = undefined;
-        obj.diffusingStartIndex = undefined;
-        obj.originalPositionsDiffuse = undefined;
-        continue;
-      }
-
-      // Apply diffusion only to the last 10% of vertices (random + damp)
-      const arr = posAttr.array as Float32Array;
-      const startIdx = obj.diffusingStartIndex * 3;
-      const orig = obj.originalPositionsDiffuse!;
-      const segLen = (count - obj.diffusingStartIndex) * 3;
-      for (let i = 0; i < segLen; i += 9) {
-        const j = startIdx + i;
-        arr[j] += (Math.random() - 0.5) * 2 * DIFFUSE_STRENGTH;
-        arr[j + 1] += (Math.random() ) * 2 * DIFFUSE_STRENGTH;
-        arr[j + 2] += (Math.random() - 0.5) * 2 * DIFFUSE_STRENGTH;
-        arr[j] = orig[i] + (arr[j] - orig[i]) * (1 - DIFFUSE_DAMP);
-        arr[j + 1] = orig[i + 1] + (arr[j + 1] - orig[i + 1]) * (1 - DIFFUSE_DAMP);
-        arr[j + 2] = orig[i + 2] + (arr[j + 2] - orig[i + 2]) * (1 - DIFFUSE_DAMP);
-      }
-      posAttr.needsUpdate = true;
+    if (motion.fly > 0 && !this.pathPlayback) {
+      this.camera.getWorldDirection(this._forward);
+      this.cameraRig.position.addScaledVector(this._forward, FREE_FLY_SPEED * motion.fly);
+      this.cameraRig.position.clampLength(0, FREE_FLY_MAX_DISTANCE);
+      this.cameraRig.position.y = Math.max(FREE_FLY_MIN_HEIGHT, this.cameraRig.position.y);
     }
+    this.updateCameraPath();
 
-    // Object lifetime: after lifetime (20–30s), gradually hide 10% of particles per frame, then remove and dispose
+    // Entrance, idle and exit effects run in the point shader; the CPU only starts exits and disposes.
+    const now = this.clock.elapsedTime;
+    this.timeUniform.value = now;
     const idsToDelete: string[] = [];
     for (const [id, obj] of this.objects.entries()) {
-      const age = now - obj.loadedAt;
-
       if (obj.removalStartedAt == null) {
-        if (age < obj.lifetime) continue;
+        if (now - obj.loadedAt < obj.lifetime) continue;
         obj.removalStartedAt = now;
-        const dr = obj.mesh.geometry.drawRange;
-        obj.visiblePoints = dr.count;
-      }
-
-      const removePerFrame = Math.max(1, Math.ceil(obj.targetPoints * REMOVAL_PERCENT_PER_FRAME));
-      obj.visiblePoints = Math.max(0, (obj.visiblePoints ?? obj.targetPoints) - removePerFrame);
-      obj.mesh.geometry.setDrawRange(0, obj.visiblePoints);
-
-      if (obj.visiblePoints <= 0) {
-        idsToDelete.push(id);
+        obj.mesh.material.leave(now);
       }
+      if (obj.mesh.material.hasLeft(now)) idsToDelete.push(id);
     }
     for (const id of idsToDelete) {
-      const obj = this.objects.get(id);
-      if (obj) {
-        this.movingWorld.remove(obj.mesh);
-        obj.mesh.geometry.dispose();
-        if (Array.isArray(obj.mesh.material)) obj.mesh.material.forEach((m) => m.dispose());
-        else obj.mesh.material.dispose();
-        this.objects.delete(id);
-        if (this.selectedObjectId === id) this.selectedObjectId = null;
-      }
+      this.disposeObject(id);
     }
+    this.placePinMarkers();
+    this.updateAtmosphere(delta);
 
-    this.renderer.render(this.scene, this.camera);
+    this.postProcessing.setFocus(this.selectionFocusDistance());
+    this.postProcessing.render(delta, this.smoothedFps);
+    this.frameListeners.forEach((listener) => listener());
   }
 }
@@ -0,0 +1,515 @@
+import { Color } from 'three';
+import { Atmosphere, DreamObject, ObjectEffects, ObjectGroup, ObjectPersistence, ObjectSummary, SceneEditOperation, SceneGraph } from '../types';
+import { assetRegistry, normalizeTypeName } from './assetRegistry';
+import { hasLifecycleEffect, LIFECYCLE_STAGES } from './lifecycleEffects';
+import { DAY_PERIOD_RANGE, DEFAULT_ATMOSPHERE, FOG_DENSITY_RANGE, LIGHT_INTENSITY_RANGE } from './atmosphere';
+
+/**
+ * Validation and repair for model-produced scene graphs and edit operations. Anything the renderer cannot use as-is
+ * (unknown types, out-of-range transforms, bad colors, duplicate ids, missing fields) is fixed up,
+ * and every fix is reported as a human-readable warning.
+ */
+
+/** Documented ranges from the parseScenePrompt schema. */
+export const POSITION_RANGE: [[number, number], [number, number], [number, number]] = [[-50, 50], [0, 20], [-100, 0]];
+export const SCALE_RANGE: [number, number] = [0.1, 10];
+export const MAX_POINTS_RANGE: [number, number] = [1000, 5000];
+/** Allowed custom lifetimes, in seconds. */
+export const CUSTOM_LIFETIME_RANGE: [number, number] = [1, 3600];
+/** Live objects drift toward the camera and wrap, so their z spans the whole wrap corridor. */
+export const LIVE_POSITION_RANGE: [[number, number], [number, number], [number, number]] = [POSITION_RANGE[0], POSITION_RANGE[1], [-130, 20]];
+const DEFAULT_POSITION: [number, number, number] = [0, 0, -50];
+const DEFAULT_MAX_POINTS = 2500;
+const DEFAULT_AMBIENCE = 'a quiet dream';
+
+/** Default object colors; also offered to the model in the schema. */
+export const DREAM_PALETTE = ['#F7E5EC', '#FFD9CC', '#EEBEC6', '#FDBA90', '#D28A8C', '#F9D4B2'];
+
+/** Primitive shapes the renderer can build without a point-cloud file. */
+export const PRIMITIVE_TYPES = ['sphere', 'box', 'cylinder', 'torus'];
+
+/** Everyday nouns for the primitive shapes. */
+export const PRIMITIVE_ALIASES: Record<string, string> = {
+  sphere: 'sphere', ball: 'sphere', orb: 'sphere', globe: 'sphere', bubble: 'sphere', planet: 'sphere',
+  box: 'box', cube: 'box', crate: 'box', block: 'box',
+  cylinder: 'cylinder', pillar: 'cylinder', column: 'cylinder', tube: 'cylinder',
+  torus: 'torus', ring: 'torus', donut: 'torus', halo: 'torus',
+};
+
+/** Type used when nothing else matches. */
+const FALLBACK_TYPE = 'sphere';
+/** Max edit distance for treating an unknown type as a typo of a known one. */
+const MAX_TYPO_DISTANCE = 2;
+
+/** Shared state while validating the objects of one scene (possibly one at a time, as they stream in). */
+export interface ValidationContext {
+  usedIds: Set<string>;
+  warnings: string[];
+  /** Number of objects seen so far (valid or not); used for default ids and colors. */
+  count: number;
+  /** Allowed positions: POSITION_RANGE for new objects, LIVE_POSITION_RANGE for objects that already drifted. */
+  positionRange: [[number, number], [number, number], [number, number]];
+  /** Duplicate ids renamed so far (given id → new id), so groups can follow them. */
+  renamedIds: Map<string, string>;
+}
+
+export function createValidationContext(positionRange = POSITION_RANGE): ValidationContext {
+  return { usedIds: new Set(), warnings: [], count: 0, positionRange, renamedIds: new Map() };
+}
+
+function singularTypeName(name: string): string {
+  return name.replace(/ies$/, 'y').replace(/(s|x|ch|sh)es$/, '$1').replace(/([^s])s$/, '$1');
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function knownTypes(): string[] {
+  return [...assetRegistry.typeNames(), ...PRIMITIVE_TYPES];
+}
+
+function lookupType(name: string): string | null {
+  const asset = assetRegistry.resolve(name);
+  if (asset) return asset;
+  if (PRIMITIVE_TYPES.includes(name)) return name;
+  if (name in PRIMITIVE_ALIASES) return PRIMITIVE_ALIASES[name];
+  return null;
+}
+
+/**
+ * Map a model-supplied type to one the renderer knows: exact or plural match, then the known type sharing
+ * the most words ('cherry-tree' → 'tree'), then a close spelling, else a primitive.
+ */
+export function resolveObjectType(raw: unknown): { type: string; exact: boolean } {
+  const name = typeof raw === 'string' ? normalizeTypeName(raw) : '';
+  if (!name) return { type: FALLBACK_TYPE, exact: false };
+  const direct = lookupType(name);
+  // An asset alias ('tree') is as good as its type.
+  if (direct && (direct === name || assetRegistry.resolve(name))) return { type: direct, exact: true };
+  if (direct) return { type: direct, exact: false };
+  const singularMatch = lookupType(singularTypeName(name));
+  if (singularMatch) return { type: singularMatch, exact: false };
+
+  const words = new Set(name.split('-').map(singularTypeName));
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const candidate of [...knownTypes(), ...Object.keys(PRIMITIVE_ALIASES)]) {
+    const candidateWords = candidate.split('-').map(singularTypeName);
+    const overlap = candidateWords.filter((w) => words.has(w)).length;
+    // Prefer more shared words, then the candidate with fewer words the model did not say.
+    const score = overlap - (candidateWords.length - overlap) * 0.1;
+    if (overlap > 0 && score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  if (best) return { type: lookupType(best)!, exact: false };
+
+  let closest: string | null = null;
+  let closestDistance = MAX_TYPO_DISTANCE + 1;
+  // Very short names are within typo distance of almost anything.
+  for (const candidate of name.length > MAX_TYPO_DISTANCE + 1 ? knownTypes() : []) {
+    const d = editDistance(name, candidate);
+    if (d < closestDistance) {
+      closest = candidate;
+      closestDistance = d;
+    }
+  }
+  return { type: closest ?? FALLBACK_TYPE, exact: false };
+}
+
+/** Normalize '#abc', 'abc', '#aabbcc' or a CSS color name to '#RRGGBB'; null if unrecognized. */
+export function normalizeColor(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const value = raw.trim().toLowerCase();
+  const hex = value.startsWith('#') ? value.slice(1) : value;
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex.toUpperCase()}`;
+  if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.split('').map((c) => c + c).join('').toUpperCase()}`;
+  const named = (Color.NAMES as Record<string, number>)[value.replace(/\s+/g, '')];
+  if (named != null) return `#${named.toString(16).padStart(6, '0').toUpperCase()}`;
+  return null;
+}
+
+function clamp(value: number, [min, max]: [number, number]): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function toFiniteNumbers(raw: unknown): number[] | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? [raw] : null;
+  if (!Array.isArray(raw)) return null;
+  const numbers = raw.map((v) => (typeof v === 'string' ? parseFloat(v) : v));
+  return numbers.every((v) => typeof v === 'number' && Number.isFinite(v)) ? (numbers as number[]) : null;
+}
+
+/** Read an [x, y, z] field: pads short arrays with `pad(i, values)`, drops extra entries, clamps to ranges. */
+function readVector3(
+  raw: unknown,
+  field: string,
+  label: string,
+  fallback: [number, number, number],
+  pad: (i: number, values: number[]) => number,
+  ranges: [number, number][] | null,
+  warnings: string[]
+): [number, number, number] {
+  const values = toFiniteNumbers(raw);
+  if (!values || values.length === 0) {
+    if (raw !== undefined) warnings.push(`${label}: invalid ${field}, using [${fallback.join(', ')}]`);
+    else warnings.push(`${label}: missing ${field}, using [${fallback.join(', ')}]`);
+    return [...fallback];
+  }
+  if (values.length !== 3) {
+    warnings.push(`${label}: ${field} had ${values.length} element(s), expected 3`);
+  }
+  const out = [0, 1, 2].map((i) => (i < values.length ? values[i] : pad(i, values))) as [number, number, number];
+  if (ranges) {
+    out.forEach((v, i) => {
+      const clamped = clamp(v, ranges[i]);
+      if (clamped !== v) {
+        warnings.push(`${label}: ${field}[${i}] ${v} clamped to ${clamped}`);
+        out[i] = clamped;
+      }
+    });
+  }
+  return out;
+}
+
+/** Keep the known effect names of an `effects` field; unknown ones are dropped so the stage uses its default. */
+function readEffects(raw: unknown, label: string, warnings: string[]): ObjectEffects | undefined {
+  if (raw == null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    warnings.push(`${label}: invalid effects, using defaults`);
+    return undefined;
+  }
+  const input = raw as Record<string, unknown>;
+  const effects: ObjectEffects = {};
+  for (const stage of LIFECYCLE_STAGES) {
+    if (input[stage] == null || input[stage] === '') continue;
+    const name = typeof input[stage] === 'string' ? normalizeTypeName(input[stage] as string) : '';
+    if (hasLifecycleEffect(stage, name)) effects[stage] = name;
+    else warnings.push(`${label}: unknown ${stage} effect "${String(input[stage])}", using the default`);
+  }
+  return Object.keys(effects).length ? effects : undefined;
+}
+
+/** Read a `persistence` field: a mode name or `{ mode, lifetime }`. Ephemeral (left out) when missing or invalid. */
+function readPersistence(raw: unknown, label: string, warnings: string[]): ObjectPersistence | undefined {
+  if (raw == null) return undefined;
+  const input = (typeof raw === 'string' ? { mode: raw } : raw) as Record<string, unknown>;
+  const mode = typeof input === 'object' && !Array.isArray(input) ? input.mode : undefined;
+  if (mode === 'pinned') return { mode };
+  if (mode === 'ephemeral') return undefined;
+  if (mode === 'custom' && typeof input.lifetime === 'number' && Number.isFinite(input.lifetime)) {
+    const lifetime = clamp(input.lifetime, CUSTOM_LIFETIME_RANGE);
+    if (lifetime !== input.lifetime) warnings.push(`${label}: lifetime ${input.lifetime} clamped to ${lifetime}`);
+    return { mode, lifetime };
+  }
+  warnings.push(`${label}: invalid persistence, using ephemeral`);
+  return undefined;
+}
+
+/**
+ * Validate and repair an atmosphere: bad colors and missing numbers take the defaults, numbers are clamped to
+ * their ranges, and an unusable day cycle is dropped. Returns null if there is no atmosphere object at all.
+ */
+export function validateAtmosphere(raw: unknown, warnings: string[]): Atmosphere | null {
+  if (raw == null) return null;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    warnings.push('Atmosphere: not an object, ignored');
+    return null;
+  }
+  const input = raw as Record<string, unknown>;
+  const color = (key: 'fogColor' | 'lightColor') => {
+    const value = normalizeColor(input[key]);
+    if (!value) warnings.push(`Atmosphere: invalid ${key}, using ${DEFAULT_ATMOSPHERE[key]}`);
+    return value ?? DEFAULT_ATMOSPHERE[key];
+  };
+  const number = (key: string, value: unknown, range: [number, number], fallback: number) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      warnings.push(`Atmosphere: invalid ${key}, using ${fallback}`);
+      return fallback;
+    }
+    const clamped = clamp(value, range);
+    if (clamped !== value) warnings.push(`Atmosphere: ${key} ${value} clamped to ${clamped}`);
+    return clamped;
+  };
+  let dayCycle: Atmosphere['dayCycle'] = null;
+  if (input.dayCycle != null) {
+    const cycle = input.dayCycle as Record<string, unknown>;
+    if (typeof cycle === 'object' && typeof cycle.period === 'number' && Number.isFinite(cycle.period)) {
+      const start = typeof cycle.start === 'number' && Number.isFinite(cycle.start) ? ((cycle.start % 1) + 1) % 1 : 0.5;
+      dayCycle = { period: number('dayCycle.period', cycle.period, DAY_PERIOD_RANGE, cycle.period), start };
+    } else {
+      warnings.push('Atmosphere: invalid dayCycle, using a fixed light');
+    }
+  }
+  return {
+    fogColor: color('fogColor'),
+    fogDensity: number('fogDensity', input.fogDensity, FOG_DENSITY_RANGE, DEFAULT_ATMOSPHERE.fogDensity),
+    lightColor: color('lightColor'),
+    lightIntensity: number('lightIntensity', input.lightIntensity, LIGHT_INTENSITY_RANGE, DEFAULT_ATMOSPHERE.lightIntensity),
+    dayCycle,
+  };
+}
+
+function titleFromType(type: string): string {
+  return type.split('-').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/**
+ * Validate and repair a single object. Returns null (with a warning) if the entry is not an object at all.
+ * Ids are deduplicated against everything previously validated with the same context.
+ */
+export function validateDreamObject(raw: unknown, ctx: ValidationContext): DreamObject | null {
+  const index = ctx.count++;
+  const warnings = ctx.warnings;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    warnings.push(`Object #${index + 1}: not an object, skipped`);
+    return null;
+  }
+  const input = raw as Record<string, unknown>;
+
+  const { type, exact } = resolveObjectType(input.type);
+  let id = typeof input.id === 'string' && input.id.trim() ? input.id.trim() : `${type}_${String(index + 1).padStart(2, '0')}`;
+  const label = typeof input.name === 'string' && input.name.trim() ? `${id} (${input.name.trim()})` : id;
+  if (!exact) {
+    warnings.push(`${label}: unknown type "${String(input.type ?? '')}" mapped to "${type}"`);
+  }
+  if (ctx.usedIds.has(id)) {
+    let n = 2;
+    while (ctx.usedIds.has(`${id}_${n}`)) n++;
+    warnings.push(`${label}: duplicate id renamed to ${id}_${n}`);
+    ctx.renamedIds.set(id, `${id}_${n}`);
+    id = `${id}_${n}`;
+  }
+  ctx.usedIds.add(id);
+
+  const position = readVector3(input.position, 'position', label, DEFAULT_POSITION, (i) => DEFAULT_POSITION[i], ctx.positionRange, warnings);
+  // A single scale value means uniform scale; otherwise reuse the last given axis.
+  const scale = readVector3(input.scale, 'scale', label, [1, 1, 1], (_, values) => values[values.length - 1], [SCALE_RANGE, SCALE_RANGE, SCALE_RANGE], warnings);
+  const rotation = readVector3(input.rotation ?? [0, 0, 0], 'rotation', label, [0, 0, 0], () => 0, null, warnings);
+
+  let color = normalizeColor(input.color);
+  if (!color) {
+    const palette = assetRegistry.get(type)?.palette;
+    color = palette?.length ? palette[index % palette.length] : DREAM_PALETTE[index % DREAM_PALETTE.length];
+    warnings.push(`${label}: invalid color "${String(input.color ?? '')}", using ${color}`);
+  }
+
+  let maxPoints = DEFAULT_MAX_POINTS;
+  const rawPoints = typeof input.maxPoints === 'string' ? parseFloat(input.maxPoints) : input.maxPoints;
+  if (typeof rawPoints === 'number' && Number.isFinite(rawPoints)) {
+    maxPoints = Math.round(clamp(rawPoints, MAX_POINTS_RANGE));
+    if (maxPoints !== rawPoints) warnings.push(`${label}: maxPoints ${rawPoints} clamped to ${maxPoints}`);
+  } else if (input.maxPoints !== undefined) {
+    warnings.push(`${label}: invalid maxPoints, using ${DEFAULT_MAX_POINTS}`);
+  }
+
+  const effects = readEffects(input.effects, label, warnings);
+  const persistence = readPersistence(input.persistence, label, warnings);
+  return {
+    id,
+    type,
+    position,
+    scale,
+    color,
+    rotation,
+    name: typeof input.name === 'string' && input.name.trim() ? input.name.trim() : titleFromType(type),
+    maxPoints,
+    ...(effects && { effects }),
+    ...(persistence && { persistence }),
+  };
+}
+
+/**
+ * Validate object groups against the ids validated with `ctx` (and any it was seeded with), following renamed
+ * duplicates. Unknown members are dropped, an object stays in the first group that claims it, and groups left
+ * with fewer than two members are skipped.
+ */
+export function validateGroups(raw: unknown, ctx: ValidationContext): ObjectGroup[] {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) {
+    ctx.warnings.push('Scene graph "groups" was not a list; ignored');
+    return [];
+  }
+  const groups: ObjectGroup[] = [];
+  const grouped = new Set<string>();
+  const groupIds = new Set<string>();
+  raw.forEach((entry, index) => {
+    const input = (entry && typeof entry === 'object' && !Array.isArray(entry) ? entry : {}) as Record<string, unknown>;
+    const name = typeof input.name === 'string' && input.name.trim() ? input.name.trim() : `Group ${index + 1}`;
+    const members = Array.isArray(input.memberIds) ? input.memberIds : [];
+    const memberIds: string[] = [];
+    for (const member of members) {
+      const id = typeof member === 'string' ? ctx.renamedIds.get(member) ?? member : '';
+      if (!ctx.usedIds.has(id)) {
+        ctx.warnings.push(`${name}: unknown member "${String(member)}" dropped`);
+      } else if (grouped.has(id)) {
+        ctx.warnings.push(`${name}: ${id} is already in another group`);
+      } else if (!memberIds.includes(id)) {
+        memberIds.push(id);
+      }
+    }
+    if (memberIds.length < 2) {
+      ctx.warnings.push(`${name}: fewer than two members, not grouped`);
+      return;
+    }
+    let id = typeof input.id === 'string' && input.id.trim() ? input.id.trim() : `group_${String(index + 1).padStart(2, '0')}`;
+    if (groupIds.has(id)) {
+      let n = 2;
+      while (groupIds.has(`${id}_${n}`)) n++;
+      id = `${id}_${n}`;
+    }
+    groupIds.add(id);
+    memberIds.forEach((m) => grouped.add(m));
+    groups.push({ id, name, memberIds });
+  });
+  return groups;
+}
+
+/**
+ * Validate and repair a whole scene graph. Accepts anything (e.g. parsed model JSON); a bare array is
+ * treated as the object list. Missing ambience falls back to `fallbackAmbience` (typically the prompt).
+ * Ids in `existingIds` (objects already in the renderer) are treated as taken.
+ */
+export function validateSceneGraph(
+  raw: unknown,
+  options?: { fallbackAmbience?: string; existingIds?: string[] }
+): { scene: SceneGraph; warnings: string[] } {
+  const ctx = createValidationContext();
+  options?.existingIds?.forEach((id) => ctx.usedIds.add(id));
+  const input = (Array.isArray(raw) ? { objects: raw } : raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (input !== raw && !Array.isArray(raw)) {
+    ctx.warnings.push('Scene graph was not an object; starting from an empty scene');
+  }
+
+  let rawObjects: unknown[] = [];
+  if (Array.isArray(input.objects)) {
+    rawObjects = input.objects;
+  } else if (input.objects !== undefined) {
+    ctx.warnings.push('Scene graph "objects" was not a list; ignored');
+  }
+  const objects = rawObjects
+    .map((o) => validateDreamObject(o, ctx))
+    .filter((o): o is DreamObject => o !== null);
+
+  let ambience = typeof input.ambience === 'string' ? input.ambience.trim() : '';
+  if (!ambience) {
+    ambience = options?.fallbackAmbience?.trim().slice(0, 300) || DEFAULT_AMBIENCE;
+    ctx.warnings.push(`Missing ambience, using "${ambience.slice(0, 50)}"`);
+  }
+
+  const skyColor = normalizeColor(input.skyColor) ?? '#FFFFFF';
+  const terrainColor = normalizeColor(input.terrainColor) ?? '#FFFFFF';
+
+  const groups = validateGroups(input.groups, ctx);
+  const atmosphere = validateAtmosphere(input.atmosphere, ctx.warnings);
+
+  return {
+    scene: { objects, ambience, skyColor, terrainColor, ...(groups.length > 0 && { groups }), ...(atmosphere && { atmosphere }) },
+    warnings: ctx.warnings,
+  };
+}
+
+/** Model spellings for each edit operation. */
+const EDIT_OP_ALIASES: Record<string, SceneEditOperation['op']> = {
+  add: 'add', create: 'add', spawn: 'add',
+  remove: 'remove', delete: 'remove',
+  transform: 'transform', update: 'transform', 'update-transform': 'transform', move: 'transform', rotate: 'transform', scale: 'transform',
+  recolor: 'recolor', recolour: 'recolor', color: 'recolor', colour: 'recolor',
+};
+
+function findLiveObject(input: Record<string, unknown>, liveObjects: ObjectSummary[]): ObjectSummary | null {
+  const byId = liveObjects.find((o) => o.id === input.id);
+  if (byId) return byId;
+  // Models sometimes echo the name instead of the id.
+  for (const key of ['id', 'name', 'target']) {
+    const value = input[key];
+    if (typeof value !== 'string') continue;
+    const wanted = value.trim().toLowerCase();
+    const byName = liveObjects.find((o) => o.name.toLowerCase() === wanted || o.id.toLowerCase() === wanted);
+    if (byName) return byName;
+  }
+  return null;
+}
+
+/**
+ * Validate and repair edit operations against the live objects. Accepts a list or `{ operations: [...] }`,
+ * with fields either nested (`object` for add) or flat. Targets may be given by id or by name;
+ * operations on unknown objects are dropped with a warning.
+ */
+export function validateSceneEdits(
+  raw: unknown,
+  liveObjects: ObjectSummary[]
+): { operations: SceneEditOperation[]; warnings: string[] } {
+  const ctx = createValidationContext();
+  liveObjects.forEach((o) => ctx.usedIds.add(o.id));
+  ctx.count = liveObjects.length;
+  const warnings = ctx.warnings;
+  const list = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object' && Array.isArray((raw as { operations?: unknown }).operations)
+      ? (raw as { operations: unknown[] }).operations
+      : [];
+  const operations: SceneEditOperation[] = [];
+
+  list.forEach((item, i) => {
+    const label = `Edit #${i + 1}`;
+    if (!item || typeof item !== 'object') {
+      warnings.push(`${label}: not an object, skipped`);
+      return;
+    }
+    const input = item as Record<string, unknown>;
+    const op = EDIT_OP_ALIASES[normalizeTypeName(String(input.op ?? ''))];
+    if (!op) {
+      warnings.push(`${label}: unknown operation "${String(input.op ?? '')}", skipped`);
+      return;
+    }
+
+    if (op === 'add') {
+      const object = validateDreamObject(input.object ?? input, ctx);
+      if (object) operations.push({ op, object });
+      return;
+    }
+
+    const target = findLiveObject(input, liveObjects);
+    if (!target) {
+      warnings.push(`${label}: no live object "${String(input.id ?? input.name ?? '')}", skipped`);
+      return;
+    }
+    const targetLabel = `${label} (${target.name})`;
+
+    if (op === 'remove') {
+      operations.push({ op, id: target.id });
+    } else if (op === 'recolor') {
+      const color = normalizeColor(input.color);
+      if (color) operations.push({ op, id: target.id, color });
+      else warnings.push(`${targetLabel}: invalid color "${String(input.color ?? '')}", skipped`);
+    } else {
+      const transform: Extract<SceneEditOperation, { op: 'transform' }> = { op, id: target.id };
+      if (input.position !== undefined) {
+        transform.position = readVector3(input.position, 'position', targetLabel, target.position, (j) => target.position[j], LIVE_POSITION_RANGE, warnings);
+      }
+      if (input.rotation !== undefined) {
+        transform.rotation = readVector3(input.rotation, 'rotation', targetLabel, target.rotation, (j) => target.rotation[j], null, warnings);
+      }
+      if (input.scale !== undefined) {
+        transform.scale = readVector3(input.scale, 'scale', targetLabel, target.scale, (_, values) => values[values.length - 1], [SCALE_RANGE, SCALE_RANGE, SCALE_RANGE], warnings);
+      }
+      if (transform.position || transform.rotation || transform.scale) operations.push(transform);
+      else warnings.push(`${targetLabel}: transform without position, rotation or scale, skipped`);
+    }
+  });
+
+  return { operations, warnings };
+}
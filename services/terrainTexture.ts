@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+
+/**
+ * Terrain texture helpers: make generated images tile seamlessly, and blend a large-scale (macro) sample
+ * of the same texture over the tiled (detail) one so the repetition is less visible toward the horizon.
+ */
+
+/** Width of the cross-faded band, as a fraction of the image size. */
+const SEAM_BAND = 0.125;
+/** Macro sample scale relative to the tiled UVs; not a simple ratio, so the two grids never line up. */
+const MACRO_UV_SCALE = 0.137;
+const MACRO_UV_ROTATION = 0.6;
+/** Macro share of the color near the camera and at distance (view-space units). */
+const MACRO_MIX_NEAR = 0.2;
+const MACRO_MIX_FAR = 0.6;
+const MACRO_FADE_START = 40;
+const MACRO_FADE_END = 600;
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Make an image tile seamlessly by cross-fading each edge band into the opposite edge (mirrored edge fade).
+ * The result is smaller by the band width in each direction; its right edge continues into its left edge
+ * and its bottom into its top, with no seam through the middle.
+ */
+export function makeSeamlessTile(image: CanvasImageSource & { width: number; height: number }): HTMLCanvasElement {
+  const width = image.width;
+  const height = image.height;
+  const bandX = Math.max(1, Math.round(width * SEAM_BAND));
+  const bandY = Math.max(1, Math.round(height * SEAM_BAND));
+  const outWidth = width - bandX;
+  const outHeight = height - bandY;
+
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  const sourceCtx = source.getContext('2d')!;
+  sourceCtx.drawImage(image, 0, 0);
+  const src = sourceCtx.getImageData(0, 0, width, height).data;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outWidth;
+  canvas.height = outHeight;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(outWidth, outHeight);
+
+  // Pixel (x, y) of the horizontally faded image: the left band fades in from the columns cut off on the right.
+  const sampleX = (x: number, y: number, channel: number): number => {
+    const own = src[(y * width + x) * 4 + channel];
+    if (x >= bandX) return own;
+    const wrapped = src[(y * width + x + outWidth) * 4 + channel];
+    const t = smoothstep((x + 0.5) / bandX);
+    return wrapped + (own - wrapped) * t;
+  };
+
+  for (let y = 0; y < outHeight; y++) {
+    const t = smoothstep(Math.min(1, (y + 0.5) / bandY));
+    for (let x = 0; x < outWidth; x++) {
+      const i = (y * outWidth + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const own = sampleX(x, y, channel);
+        if (y >= bandY) {
+          out.data[i + channel] = own;
+          continue;
+        }
+        // Top band fades in from the rows cut off at the bottom.
+        const wrapped = sampleX(x, y + outHeight, channel);
+        out.data[i + channel] = wrapped + (own - wrapped) * t;
+      }
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+}
+
+/**
+ * Patch a terrain material so its map is sampled twice: at the tiled (detail) scale and at a rotated macro
+ * scale. The macro sample gets a larger share with distance, where tiling repetition is most visible.
+ */
+export function addMacroVariation(material: THREE.MeshStandardMaterial): void {
+  material.onBeforeCompile = (shader) => {
+    shader.fragmentShader = shader.fragmentShader.replace(
+      '#include <map_fragment>',
+      `#ifdef USE_MAP
+        vec4 detailColor = texture2D( map, vUv );
+        vec2 macroUv = mat2( ${Math.cos(MACRO_UV_ROTATION).toFixed(6)}, ${(-Math.sin(MACRO_UV_ROTATION)).toFixed(6)},
+          ${Math.sin(MACRO_UV_ROTATION).toFixed(6)}, ${Math.cos(MACRO_UV_ROTATION).toFixed(6)} ) * vUv * ${MACRO_UV_SCALE.toFixed(6)};
+        vec4 macroColor = texture2D( map, macroUv );
+        float macroMix = mix( ${MACRO_MIX_NEAR.toFixed(3)}, ${MACRO_MIX_FAR.toFixed(3)},
+          smoothstep( ${MACRO_FADE_START.toFixed(1)}, ${MACRO_FADE_END.toFixed(1)}, length( vViewPosition ) ) );
+        diffuseColor *= mix( detailColor, macroColor, macroMix );
+      #endif`
+    );
+  };
+}
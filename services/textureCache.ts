@@ -0,0 +1,165 @@
+/**
+ * Persistent cache for generated sky/terrain images (data URLs) in IndexedDB.
+ * Entries are keyed by normalized ambience text, image model and aspect ratio; when the total size
+ * exceeds the limit, least-recently-used entries are evicted.
+ */
+
+import type { RequestOptions } from './requestControl';
+
+const DB_NAME = 'dreamsculpt-textures';
+const DB_VERSION = 1;
+const STORE = 'textures';
+const LAST_USED_INDEX = 'lastUsedAt';
+/** Default size limit for all cached data URLs together. */
+export const DEFAULT_TEXTURE_CACHE_BYTES = 50 * 1024 * 1024;
+
+export interface TextureCacheKey {
+  ambience: string;
+  model: string;
+  aspectRatio: string;
+}
+
+export interface TextureRequestOptions extends RequestOptions {
+  /** Skip the cache lookup and generate a new image (the result still replaces the cached one). */
+  regenerate?: boolean;
+}
+
+interface TextureCacheEntry {
+  key: string;
+  dataUrl: string;
+  /** Approximate size; data URLs are ASCII, so length ≈ bytes. */
+  bytes: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+/** Case, whitespace and punctuation do not change the image we would ask for. */
+export function normalizeAmbience(ambience: string): string {
+  return ambience.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function cacheKey({ ambience, model, aspectRatio }: TextureCacheKey): string {
+  return `${model}|${aspectRatio}|${normalizeAmbience(ambience)}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export class TextureCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  constructor(private readonly maxBytes: number = DEFAULT_TEXTURE_CACHE_BYTES) {}
+
+  /**
+   * Return the cached image for `key`, or generate, store and return a new one.
+   * Empty results ('' = no image) are returned but never cached.
+   */
+  async getOrCreate(
+    key: TextureCacheKey,
+    generate: () => Promise<string>,
+    options?: TextureRequestOptions
+  ): Promise<{ dataUrl: string; cached: boolean }> {
+    if (!options?.regenerate) {
+      const hit = await this.get(key);
+      if (hit) return { dataUrl: hit, cached: true };
+    }
+    options?.signal?.throwIfAborted();
+    const dataUrl = await generate();
+    if (dataUrl) await this.put(key, dataUrl);
+    return { dataUrl, cached: false };
+  }
+
+  /** Cached data URL for `key`, or null. Marks the entry as recently used. */
+  async get(key: TextureCacheKey): Promise<string | null> {
+    const db = await this.open();
+    if (!db) return null;
+    try {
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      const entry = await requestToPromise(store.get(cacheKey(key)) as IDBRequest<TextureCacheEntry | undefined>);
+      if (!entry) return null;
+      store.put({ ...entry, lastUsedAt: Date.now() });
+      await transactionDone(tx);
+      return entry.dataUrl;
+    } catch (error) {
+      console.warn('Texture cache read failed:', error);
+      return null;
+    }
+  }
+
+  async put(key: TextureCacheKey, dataUrl: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const now = Date.now();
+    const entry: TextureCacheEntry = { key: cacheKey(key), dataUrl, bytes: dataUrl.length, createdAt: now, lastUsedAt: now };
+    try {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(entry);
+      await transactionDone(tx);
+      await this.evict(db);
+    } catch (error) {
+      console.warn('Texture cache write failed:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  }
+
+  /** Delete least-recently-used entries until the total size fits in maxBytes. */
+  private async evict(db: IDBDatabase): Promise<void> {
+    const tx = db.transaction(STORE, 'readwrite');
+    const index = tx.objectStore(STORE).index(LAST_USED_INDEX);
+    const entries = await requestToPromise(index.getAll() as IDBRequest<TextureCacheEntry[]>);
+    let total = entries.reduce((sum, e) => sum + e.bytes, 0);
+    // getAll on the index returns entries oldest-first.
+    for (const entry of entries) {
+      if (total <= this.maxBytes) break;
+      tx.objectStore(STORE).delete(entry.key);
+      total -= entry.bytes;
+    }
+    await transactionDone(tx);
+  }
+
+  /** Open (and create) the database once; resolves to null where IndexedDB is unavailable. */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+          store.createIndex(LAST_USED_INDEX, LAST_USED_INDEX);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Texture cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+/** Shared cache used by the image-generating providers. */
+export const textureCache = new TextureCache();
@@ -1,13 +1,52 @@
 
 export interface DreamObject {
   id: string;
-  type: 'sphere' | 'box' | 'cylinder' | 'torus' | 'tree' | 'cloud' | 'mushroom';
+  /** A point-cloud type from the asset registry (e.g. 'sakura-tree'), or a primitive: 'sphere' | 'box' | 'cylinder' | 'torus'. */
+  type: string;
   position: [number, number, number];
   scale: [number, number, number];
   color: string;
   rotation: [number, number, number];
   name: string;
   maxPoints: number;
+  /** Lifecycle effect per stage (see lifecycleEffects); stages left out use the default effect. */
+  effects?: ObjectEffects;
+  /** How long the object stays; ephemeral when left out. */
+  persistence?: ObjectPersistence;
+}
+
+/**
+ * 'ephemeral': dissolves after a random 45–75 s; 'pinned': never expires;
+ * 'custom': dissolves `lifetime` seconds after it appeared.
+ */
+export type ObjectPersistence =
+  | { mode: 'ephemeral' }
+  | { mode: 'pinned' }
+  | { mode: 'custom'; lifetime: number };
+
+/** Names of an object's entrance, idle and exit effects. */
+export interface ObjectEffects {
+  entrance?: string;
+  idle?: string;
+  exit?: string;
+}
+
+/** Live state of a rendered object, e.g. as context for edit prompts. */
+export type ObjectSummary = Pick<DreamObject, 'id' | 'name' | 'type' | 'position' | 'rotation' | 'scale' | 'color'>;
+
+/** One typed change to the live scene, produced from an edit prompt ("move the tree to the left"). */
+export type SceneEditOperation =
+  | { op: 'add'; object: DreamObject }
+  | { op: 'remove'; id: string }
+  | { op: 'transform'; id: string; position?: [number, number, number]; rotation?: [number, number, number]; scale?: [number, number, number] }
+  | { op: 'recolor'; id: string; color: string };
+
+/** Objects that are selected and moved as one unit around a shared pivot, e.g. a tree cluster. */
+export interface ObjectGroup {
+  id: string;
+  name: string;
+  /** Ids of the grouped objects; an object belongs to at most one group. */
+  memberIds: string[];
 }
 
 export interface SceneGraph {
@@ -15,6 +54,97 @@ export interface SceneGraph {
   skyColor: string;
   objects: DreamObject[];
   ambience: string;
+  groups?: ObjectGroup[];
+  atmosphere?: Atmosphere;
+}
+
+/** A day/night cycle: time of day runs 0 (midnight) → 0.5 (noon) → 1 (midnight again). */
+export interface DayCycle {
+  /** Seconds for a full day. */
+  period: number;
+  /** Time of day when the atmosphere is applied. */
+  start: number;
+}
+
+/** Fog, light and time of day of a scene (see services/atmosphere). */
+export interface Atmosphere {
+  fogColor: string;
+  /** Exponential fog density; 0 for no fog. */
+  fogDensity: number;
+  lightColor: string;
+  /** Multiple of the default light intensity (0–2). */
+  lightIntensity: number;
+  /** Null for a fixed light. */
+  dayCycle: DayCycle | null;
+}
+
+/** Everything needed to draw a sky and a terrain texture; the same spec always draws the same images. */
+export interface ProceduralTextureSpec {
+  kind: 'procedural';
+  seed: number;
+  /** Sky gradient, top to horizon. */
+  sky: [string, string, string];
+  /** Terrain base and glowing vein color. */
+  terrain: [string, string];
+  /** Starfield density, 0–1. */
+  stars: number;
+  /** Cloud cover, 0–1. */
+  clouds: number;
+  /** Contrast of the terrain noise, 0–1. */
+  roughness: number;
+  /** Number and brightness of glowing terrain veins, 0–1. */
+  veins: number;
+}
+
+/** A sky/terrain image: a URL (usually a data URL from image generation) or a procedural spec to draw. */
+export type TextureSource = string | ProceduralTextureSpec;
+
+/** What DreamRenderer.setSkyAndTerrain was last given. */
+export interface SceneEnvironment {
+  skyColor: string;
+  terrainColor: string;
+  sky: TextureSource | null;
+  terrain: TextureSource | null;
+}
+
+/** Where an object is in its materialize → live → dissolve cycle. */
+export interface ObjectLifetimeState {
+  /** Seconds since the object appeared. */
+  age: number;
+  /** Seconds after appearing at which it starts to dissolve. */
+  lifetime: number;
+  /** Already dissolving. */
+  dissolving: boolean;
+}
+
+/** A rendered object as it is now: live transform (view corridor frame), color, type and lifetime. */
+export interface LiveObjectState {
+  object: DreamObject;
+  lifetime: ObjectLifetimeState;
+}
+
+/** Orbit/dolly pose of the camera rig. */
+export interface CameraPose {
+  position: [number, number, number];
+  /** Euler angles (radians). */
+  rotation: [number, number, number];
+}
+
+/** A camera pose along a path, reached `at` seconds after the path starts. */
+export interface CameraKeyframe {
+  at: number;
+  pose: CameraPose;
+}
+
+export type CameraPathEasing = 'linear' | 'ease-in-out';
+
+/** A named camera move for replaying a guided tour (see services/cameraPath). */
+export interface CameraPath {
+  name: string;
+  /** At least two, in increasing `at` order; the first is at 0. */
+  keyframes: CameraKeyframe[];
+  /** How playback speeds up from the start and slows down to the end. */
+  easing: CameraPathEasing;
 }
 
 export interface HandStats {
@@ -26,11 +156,25 @@ export interface HandStats {
   handedness: 'Left' | 'Right';
 }
 
+/** How the dream moves (see services/motionController). */
+export type MotionMode = 'drift' | 'paused' | 'reverse' | 'free-fly';
+
+/** Post-processing quality preset (see services/postProcessing); 'off' renders the scene without effects. */
+export type PostQuality = 'off' | 'low' | 'medium' | 'high';
+export type PostEffect = 'bloom' | 'depthOfField' | 'vignette' | 'grain';
+
 export interface AppState {
   isGenerating: boolean;
   statusMessage: string;
   scene: SceneGraph | null;
+  /** Sky and terrain images currently shown (URL or procedural spec); null until the first environment. */
+  skyUrl: TextureSource | null;
+  terrainUrl: TextureSource | null;
+  /** Fix-ups applied to the last generated scene graph (see sceneValidation). */
+  warnings: string[];
+  /** Speed multiplier of the world drift (or free-flight); 1 is the original speed. */
   cameraSpeed: number;
+  motionMode: MotionMode;
   /** Current FPS (updated periodically from render loop). */
   fps?: number;
 }